@@ -1,5 +1,6 @@
 /// <reference path="./types.d.ts" />
 
+import './style.css';
 import { Map } from 'maplibre-gl';
 import {
   addBasemap,
@@ -8,6 +9,19 @@ import {
   basemaps,
   getBasemapNames,
   getBasemapDefinition,
+  getBasemapCatalog,
+  getBasemapThumbnailUrl,
+  getBasemapMetadata,
+  findBasemaps,
+  registerBasemap,
+  registerBasemaps,
+  unregisterBasemap,
+  loadXyzServicesCatalog,
+  setProviderKeys,
+  setBasemapOverlay,
+  getBasemapOverlay,
+  setBasemapStyle,
+  getBasemapStyle,
 } from './lib/basemaps';
 import {
   addGeojson,
@@ -23,7 +37,26 @@ import {
   bringLayerToFront,
   sendLayerToBack,
   fitToLayer,
+  getLayerBounds,
+  setLayerPopup,
+  setLayerTooltip,
+  updateGeojson,
+  appendFeatures,
+  removeFeatures,
+  addCsv,
+  setRestoreOnStyleChange,
+  withStyleRestore,
+  getColormapColors,
+  getPaletteColors,
 } from './lib/layers';
+import {
+  enableTileCache,
+  disableTileCache,
+  isTileCacheEnabled,
+  getCacheStats,
+  clearTileCache,
+  prefetchBasemapArea,
+} from './lib/cache';
 
 // Note: Module augmentation for Map is in types.d.ts
 
@@ -33,18 +66,34 @@ import {
  */
 function extendMapPrototype(): void {
   // Basemap methods
-  Map.prototype.addBasemap = function (name) {
-    return addBasemap(this, name);
+  Map.prototype.addBasemap = function (name, options) {
+    return addBasemap(this, name, options);
   };
 
-  Map.prototype.setBasemap = function (name) {
-    return setBasemap(this, name);
+  Map.prototype.setBasemap = function (name, options) {
+    return setBasemap(this, name, options);
   };
 
   Map.prototype.getBasemap = function () {
     return getBasemap(this);
   };
 
+  Map.prototype.setBasemapOverlay = function (name, options) {
+    return setBasemapOverlay(this, name, options);
+  };
+
+  Map.prototype.getBasemapOverlay = function () {
+    return getBasemapOverlay(this);
+  };
+
+  Map.prototype.setBasemapStyle = function (style) {
+    return setBasemapStyle(this, style);
+  };
+
+  Map.prototype.getBasemapStyle = function () {
+    return getBasemapStyle(this);
+  };
+
   // GeoJSON/Vector methods
   Map.prototype.addGeojson = function (data, options) {
     return addGeojson(this, data, options);
@@ -99,21 +148,113 @@ function extendMapPrototype(): void {
   Map.prototype.fitToLayer = function (layerId, options) {
     return fitToLayer(this, layerId, options);
   };
+
+  Map.prototype.getLayerBounds = function (layerId) {
+    return getLayerBounds(this, layerId);
+  };
+
+  Map.prototype.setLayerPopup = function (layerId, popup) {
+    return setLayerPopup(this, layerId, popup);
+  };
+
+  Map.prototype.setLayerTooltip = function (layerId, tooltip) {
+    return setLayerTooltip(this, layerId, tooltip);
+  };
+
+  Map.prototype.updateGeojson = function (layerId, data) {
+    return updateGeojson(this, layerId, data);
+  };
+
+  Map.prototype.appendFeatures = function (layerId, features, options) {
+    return appendFeatures(this, layerId, features, options);
+  };
+
+  Map.prototype.removeFeatures = function (layerId, predicate) {
+    return removeFeatures(this, layerId, predicate);
+  };
+
+  Map.prototype.addCsv = function (csv, options) {
+    return addCsv(this, csv, options);
+  };
+
+  // Style change methods
+  Map.prototype.setRestoreOnStyleChange = function (enabled) {
+    return setRestoreOnStyleChange(this, enabled);
+  };
+
+  // Tile cache methods
+  Map.prototype.prefetchBasemapArea = function (bbox, minZoom, maxZoom, options) {
+    return prefetchBasemapArea(this, bbox, minZoom, maxZoom, options);
+  };
+
+  // Restore the basemap and custom layers when the style is replaced
+  const originalSetStyle = Map.prototype.setStyle;
+  Map.prototype.setStyle = function (style, options) {
+    return originalSetStyle.call(this, style, withStyleRestore(this, options));
+  };
 }
 
 // Extend Map.prototype when module is imported
 extendMapPrototype();
 
 // Export basemap catalog and utilities
-export { basemaps, getBasemapNames, getBasemapDefinition };
+export {
+  basemaps,
+  getBasemapNames,
+  getBasemapDefinition,
+  getBasemapCatalog,
+  getBasemapThumbnailUrl,
+  getBasemapMetadata,
+  findBasemaps,
+  registerBasemap,
+  registerBasemaps,
+  unregisterBasemap,
+  loadXyzServicesCatalog,
+  setProviderKeys,
+};
+
+// Export styling utilities
+export { getColormapColors, getPaletteColors };
+
+// Export tile cache
+export { enableTileCache, disableTileCache, isTileCacheEnabled, getCacheStats, clearTileCache };
+
+// Export controls
+export { BasemapControl } from './lib/controls';
+export type { BasemapControlOptions } from './lib/controls';
 
 // Export types
 export type {
+  AddBasemapOptions,
+  BasemapFallbackEvent,
+  BasemapStyleOptions,
+  BasemapStylePreset,
+  BasemapTheme,
+  TileScheme,
+  BasemapMetadata,
+  BasemapQuery,
   BasemapName,
+  BuiltInBasemapName,
+  CustomBasemapNames,
   BasemapDefinition,
+  RasterBasemapDefinition,
+  StyleBasemapDefinition,
   BasemapCatalog,
+  TileCoordinates,
 } from './lib/basemaps/types';
 
+export type {
+  XyzServicesProvider,
+  XyzServicesProviders,
+} from './lib/basemaps/xyzservices';
+
+export type {
+  TileCacheOptions,
+  TileCacheStats,
+  PrefetchProgress,
+  PrefetchBasemapOptions,
+} from './lib/cache/types';
+
 export type {
   AddGeojsonOptions,
   AddRasterOptions,
@@ -121,8 +262,29 @@ export type {
   AddWmsOptions,
   AddVectorOptions,
   LayerInfo,
+  ChoroplethOptions,
+  ClassificationScheme,
+  LayerClassification,
+  CategorizeOptions,
+  LayerCategories,
+  SizeByOptions,
+  SizeScale,
+  LayerSizing,
+  LabelOptions,
+  PopupContent,
+  ClusterOptions,
+  HeatmapOptions,
+  ExtrudeOptions,
+  ExtrusionColorOptions,
+  DetectedGeometryType,
+  AppendFeaturesOptions,
+  AddCsvOptions,
+  AddCsvResult,
+  CsvInvalidRow,
 } from './lib/layers/types';
 
+export type { ColormapName, PaletteName } from './lib/layers/colormaps';
+
 // Export utilities
 export {
   generateLayerId,
@@ -130,4 +292,8 @@ export {
   MapExtendError,
   validateUrl,
   validateBasemapName,
+  loadText,
+  loadJson,
+  loadGeojson,
 } from './lib/utils';
+export type { LoadOptions, LoadProgress } from './lib/utils';
@@ -0,0 +1,135 @@
+import type { Map, RasterLayerSpecification } from 'maplibre-gl';
+import type { BasemapStyleOptions, BasemapStylePreset } from './types';
+import { isBasemapLayer } from './index';
+import { MapExtendError, clamp } from '../utils/validation';
+
+/**
+ * Raster paint property for each appearance option.
+ */
+const PAINT_PROPERTIES: Record<
+  keyof BasemapStyleOptions,
+  keyof NonNullable<RasterLayerSpecification['paint']>
+> = {
+  opacity: 'raster-opacity',
+  saturation: 'raster-saturation',
+  contrast: 'raster-contrast',
+  brightnessMin: 'raster-brightness-min',
+  brightnessMax: 'raster-brightness-max',
+  hueRotate: 'raster-hue-rotate',
+  fadeDuration: 'raster-fade-duration',
+};
+
+/**
+ * Named appearance presets.
+ */
+export const BASEMAP_STYLE_PRESETS: Record<BasemapStylePreset, BasemapStyleOptions> = {
+  default: {},
+  grayscale: { saturation: -1 },
+  dimmed: { brightnessMax: 0.6, saturation: -0.3 },
+  muted: { saturation: -0.6, contrast: -0.2, opacity: 0.8 },
+  inverted: { brightnessMin: 1, brightnessMax: 0, saturation: -1 },
+};
+
+// Appearance per map instance, kept across basemap changes
+const basemapStyles = new WeakMap<Map, BasemapStyleOptions>();
+
+/**
+ * Clamp appearance values to the ranges accepted by MapLibre.
+ *
+ * @param options - Appearance options
+ * @returns Normalized options without undefined values
+ */
+function normalizeStyle(options: BasemapStyleOptions): BasemapStyleOptions {
+  const ranges: Partial<Record<keyof BasemapStyleOptions, [number, number]>> = {
+    opacity: [0, 1],
+    saturation: [-1, 1],
+    contrast: [-1, 1],
+    brightnessMin: [0, 1],
+    brightnessMax: [0, 1],
+    fadeDuration: [0, Infinity],
+  };
+
+  const result: BasemapStyleOptions = {};
+  (Object.keys(PAINT_PROPERTIES) as (keyof BasemapStyleOptions)[]).forEach((key) => {
+    const value = options[key];
+    if (value === undefined) return;
+    const range = ranges[key];
+    result[key] = range ? clamp(value, range[0], range[1]) : value;
+  });
+  return result;
+}
+
+/**
+ * Get the raster paint properties for the basemap appearance of a map.
+ * Only adjusted properties are included.
+ *
+ * @param map - MapLibre map instance
+ * @returns Raster paint properties
+ */
+export function getBasemapRasterPaint(map: Map): Record<string, number> {
+  const paint: Record<string, number> = {};
+  Object.entries(basemapStyles.get(map) || {}).forEach(([key, value]) => {
+    paint[PAINT_PROPERTIES[key as keyof BasemapStyleOptions]] = value;
+  });
+  return paint;
+}
+
+/**
+ * Adjust the raster appearance of the basemap, e.g. to mute it under thematic data.
+ * Options are merged with the current appearance, a preset replaces it. The
+ * appearance is kept when the basemap changes and applies to the raster layers
+ * of style basemaps.
+ *
+ * @param map - MapLibre map instance
+ * @param style - Appearance options or preset name
+ * @returns The map instance for chaining
+ * @throws MapExtendError if the preset is unknown
+ *
+ * @example
+ * ```ts
+ * map.setBasemapStyle('grayscale');
+ * map.setBasemapStyle({ opacity: 0.7, brightnessMax: 0.8 });
+ * map.setBasemapStyle('default'); // reset
+ * ```
+ */
+export function setBasemapStyle(map: Map, style: BasemapStyleOptions | BasemapStylePreset): Map {
+  let next: BasemapStyleOptions;
+  if (typeof style === 'string') {
+    if (!(style in BASEMAP_STYLE_PRESETS)) {
+      throw new MapExtendError(
+        `Unknown basemap style preset: ${style}. Valid options: ${Object.keys(BASEMAP_STYLE_PRESETS).join(', ')}`,
+        'INVALID_BASEMAP_STYLE',
+        { style }
+      );
+    }
+    next = { ...BASEMAP_STYLE_PRESETS[style] };
+  } else {
+    next = { ...basemapStyles.get(map), ...normalizeStyle(style) };
+  }
+
+  const previous = basemapStyles.get(map) || {};
+  basemapStyles.set(map, next);
+
+  // Properties that are no longer adjusted are reset to their defaults
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<
+    keyof BasemapStyleOptions
+  >;
+  const layers = (map.getStyle()?.layers || []).filter(
+    (layer) => layer.type === 'raster' && isBasemapLayer(layer.id)
+  );
+  layers.forEach((layer) => {
+    keys.forEach((key) => map.setPaintProperty(layer.id, PAINT_PROPERTIES[key], next[key]));
+  });
+
+  return map;
+}
+
+/**
+ * Get the current basemap appearance.
+ *
+ * @param map - MapLibre map instance
+ * @returns Appearance options that differ from the defaults
+ */
+export function getBasemapStyle(map: Map): BasemapStyleOptions {
+  return { ...basemapStyles.get(map) };
+}
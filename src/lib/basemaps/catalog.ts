@@ -1,7 +1,28 @@
 import type { BasemapCatalog } from './types';
 
+// License and terms notes per provider
+const OSM_LICENSE =
+  'Data ODbL 1.0; OSM Foundation tile usage policy applies (https://operations.osmfoundation.org/policies/tiles/)';
+const CARTO_LICENSE =
+  'Data ODbL 1.0; CARTO basemap terms apply (https://carto.com/basemaps)';
+const ESRI_LICENSE =
+  'Esri terms of use apply (https://www.esri.com/en-us/legal/terms/full-master-agreement)';
+const OPENTOPOMAP_LICENSE = 'Map style CC-BY-SA 3.0; data ODbL 1.0';
+const USGS_LICENSE = 'Public domain (U.S. Government work)';
+const STADIA_LICENSE =
+  'Stadia Maps terms of service apply (https://stadiamaps.com/terms-of-service/)';
+const THUNDERFOREST_LICENSE =
+  'Thunderforest terms apply (https://www.thunderforest.com/terms/)';
+const MAPTILER_LICENSE = 'MapTiler terms apply (https://www.maptiler.com/terms/)';
+const GOOGLE_LICENSE =
+  'Google Maps Platform terms apply (https://cloud.google.com/maps-platform/terms)';
+const OPENFREEMAP_LICENSE = 'Free to use; data ODbL 1.0, OpenMapTiles schema CC-BY 4.0';
+
+// Coverage of The National Map services (United States and territories)
+const USGS_BOUNDS: [number, number, number, number] = [-180, 17.5, -64, 72];
+
 /**
- * Basemap catalog with definitions from xyzservices and Google.
+ * Basemap catalog with definitions from xyzservices, Google and OpenFreeMap.
  * Based on https://github.com/geopandas/xyzservices
  */
 export const basemaps: BasemapCatalog = {
@@ -14,6 +35,9 @@ export const basemaps: BasemapCatalog = {
     attribution:
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
     maxZoom: 19,
+    theme: 'light',
+    hasLabels: true,
+    license: OSM_LICENSE,
   },
   'OpenStreetMap.DE': {
     name: 'OpenStreetMap DE',
@@ -21,6 +45,9 @@ export const basemaps: BasemapCatalog = {
     attribution:
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
     maxZoom: 18,
+    theme: 'light',
+    hasLabels: true,
+    license: OSM_LICENSE,
   },
   'OpenStreetMap.France': {
     name: 'OpenStreetMap France',
@@ -29,6 +56,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; OpenStreetMap France | &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
     maxZoom: 20,
     subdomains: 'abc',
+    theme: 'light',
+    hasLabels: true,
+    license: OSM_LICENSE,
   },
   'OpenStreetMap.HOT': {
     name: 'OpenStreetMap HOT',
@@ -37,6 +67,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, Tiles style by <a href="https://www.hotosm.org/">Humanitarian OpenStreetMap Team</a>',
     maxZoom: 19,
     subdomains: 'abc',
+    theme: 'light',
+    hasLabels: true,
+    license: OSM_LICENSE,
   },
 
   // =========================================================================
@@ -49,6 +82,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
     maxZoom: 20,
     subdomains: 'abcd',
+    theme: 'light',
+    hasLabels: true,
+    license: CARTO_LICENSE,
   },
   'CartoDB.PositronNoLabels': {
     name: 'CartoDB Positron (No Labels)',
@@ -57,6 +93,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
     maxZoom: 20,
     subdomains: 'abcd',
+    theme: 'light',
+    hasLabels: false,
+    license: CARTO_LICENSE,
   },
   'CartoDB.PositronOnlyLabels': {
     name: 'CartoDB Positron (Labels Only)',
@@ -65,6 +104,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
     maxZoom: 20,
     subdomains: 'abcd',
+    theme: 'light',
+    hasLabels: true,
+    license: CARTO_LICENSE,
   },
   'CartoDB.DarkMatter': {
     name: 'CartoDB Dark Matter',
@@ -73,6 +115,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
     maxZoom: 20,
     subdomains: 'abcd',
+    theme: 'dark',
+    hasLabels: true,
+    license: CARTO_LICENSE,
   },
   'CartoDB.DarkMatterNoLabels': {
     name: 'CartoDB Dark Matter (No Labels)',
@@ -81,6 +126,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
     maxZoom: 20,
     subdomains: 'abcd',
+    theme: 'dark',
+    hasLabels: false,
+    license: CARTO_LICENSE,
   },
   'CartoDB.DarkMatterOnlyLabels': {
     name: 'CartoDB Dark Matter (Labels Only)',
@@ -89,6 +137,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
     maxZoom: 20,
     subdomains: 'abcd',
+    theme: 'dark',
+    hasLabels: true,
+    license: CARTO_LICENSE,
   },
   'CartoDB.Voyager': {
     name: 'CartoDB Voyager',
@@ -97,6 +148,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
     maxZoom: 20,
     subdomains: 'abcd',
+    theme: 'light',
+    hasLabels: true,
+    license: CARTO_LICENSE,
   },
   'CartoDB.VoyagerNoLabels': {
     name: 'CartoDB Voyager (No Labels)',
@@ -105,6 +159,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
     maxZoom: 20,
     subdomains: 'abcd',
+    theme: 'light',
+    hasLabels: false,
+    license: CARTO_LICENSE,
   },
   'CartoDB.VoyagerOnlyLabels': {
     name: 'CartoDB Voyager (Labels Only)',
@@ -113,6 +170,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
     maxZoom: 20,
     subdomains: 'abcd',
+    theme: 'light',
+    hasLabels: true,
+    license: CARTO_LICENSE,
   },
   'CartoDB.VoyagerLabelsUnder': {
     name: 'CartoDB Voyager (Labels Under)',
@@ -121,6 +181,9 @@ export const basemaps: BasemapCatalog = {
       '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
     maxZoom: 20,
     subdomains: 'abcd',
+    theme: 'light',
+    hasLabels: true,
+    license: CARTO_LICENSE,
   },
 
   // =========================================================================
@@ -131,60 +194,90 @@ export const basemaps: BasemapCatalog = {
     url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Street_Map/MapServer/tile/{z}/{y}/{x}',
     attribution: 'Tiles &copy; Esri',
     maxZoom: 19,
+    theme: 'light',
+    hasLabels: true,
+    license: ESRI_LICENSE,
   },
   'Esri.DeLorme': {
     name: 'Esri DeLorme',
     url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Specialty/DeLorme_World_Base_Map/MapServer/tile/{z}/{y}/{x}',
     attribution: 'Tiles &copy; Esri &mdash; Copyright: &copy;2012 DeLorme',
     maxZoom: 11,
+    theme: 'light',
+    hasLabels: true,
+    license: ESRI_LICENSE,
   },
   'Esri.WorldTopoMap': {
     name: 'Esri World Topo Map',
     url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
     attribution: 'Tiles &copy; Esri',
     maxZoom: 19,
+    theme: 'terrain',
+    hasLabels: true,
+    license: ESRI_LICENSE,
   },
   'Esri.WorldImagery': {
     name: 'Esri World Imagery',
     url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
     attribution: 'Tiles &copy; Esri',
     maxZoom: 19,
+    theme: 'imagery',
+    hasLabels: false,
+    license: ESRI_LICENSE,
   },
   'Esri.WorldTerrain': {
     name: 'Esri World Terrain',
     url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Terrain_Base/MapServer/tile/{z}/{y}/{x}',
     attribution: 'Tiles &copy; Esri',
     maxZoom: 13,
+    theme: 'terrain',
+    hasLabels: false,
+    license: ESRI_LICENSE,
   },
   'Esri.WorldShadedRelief': {
     name: 'Esri World Shaded Relief',
     url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Shaded_Relief/MapServer/tile/{z}/{y}/{x}',
     attribution: 'Tiles &copy; Esri',
     maxZoom: 13,
+    theme: 'terrain',
+    hasLabels: false,
+    license: ESRI_LICENSE,
   },
   'Esri.WorldPhysical': {
     name: 'Esri World Physical',
     url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Physical_Map/MapServer/tile/{z}/{y}/{x}',
     attribution: 'Tiles &copy; Esri',
     maxZoom: 8,
+    theme: 'terrain',
+    hasLabels: false,
+    license: ESRI_LICENSE,
   },
   'Esri.OceanBasemap': {
     name: 'Esri Ocean Basemap',
     url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Ocean/World_Ocean_Base/MapServer/tile/{z}/{y}/{x}',
     attribution: 'Tiles &copy; Esri',
     maxZoom: 13,
+    theme: 'terrain',
+    hasLabels: false,
+    license: ESRI_LICENSE,
   },
   'Esri.NatGeoWorldMap': {
     name: 'Esri National Geographic World Map',
     url: 'https://server.arcgisonline.com/ArcGIS/rest/services/NatGeo_World_Map/MapServer/tile/{z}/{y}/{x}',
     attribution: 'Tiles &copy; Esri',
     maxZoom: 16,
+    theme: 'light',
+    hasLabels: true,
+    license: ESRI_LICENSE,
   },
   'Esri.WorldGrayCanvas': {
     name: 'Esri World Gray Canvas',
     url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Canvas/World_Light_Gray_Base/MapServer/tile/{z}/{y}/{x}',
     attribution: 'Tiles &copy; Esri',
     maxZoom: 16,
+    theme: 'light',
+    hasLabels: false,
+    license: ESRI_LICENSE,
   },
 
   // =========================================================================
@@ -197,6 +290,9 @@ export const basemaps: BasemapCatalog = {
       'Map data: &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, <a href="http://viewfinderpanoramas.org">SRTM</a> | Map style: &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (<a href="https://creativecommons.org/licenses/by-sa/3.0/">CC-BY-SA</a>)',
     maxZoom: 17,
     subdomains: 'abc',
+    theme: 'terrain',
+    hasLabels: true,
+    license: OPENTOPOMAP_LICENSE,
   },
 
   // =========================================================================
@@ -208,6 +304,10 @@ export const basemaps: BasemapCatalog = {
     attribution:
       'Tiles courtesy of the <a href="https://usgs.gov/">U.S. Geological Survey</a>',
     maxZoom: 20,
+    theme: 'terrain',
+    hasLabels: true,
+    license: USGS_LICENSE,
+    bounds: USGS_BOUNDS,
   },
   'USGS.USImagery': {
     name: 'USGS US Imagery',
@@ -215,6 +315,10 @@ export const basemaps: BasemapCatalog = {
     attribution:
       'Tiles courtesy of the <a href="https://usgs.gov/">U.S. Geological Survey</a>',
     maxZoom: 20,
+    theme: 'imagery',
+    hasLabels: false,
+    license: USGS_LICENSE,
+    bounds: USGS_BOUNDS,
   },
   'USGS.USImageryTopo': {
     name: 'USGS US Imagery Topo',
@@ -222,66 +326,192 @@ export const basemaps: BasemapCatalog = {
     attribution:
       'Tiles courtesy of the <a href="https://usgs.gov/">U.S. Geological Survey</a>',
     maxZoom: 20,
+    theme: 'imagery',
+    hasLabels: true,
+    license: USGS_LICENSE,
+    bounds: USGS_BOUNDS,
   },
 
   // =========================================================================
-  // Stadia Maps (formerly Stamen)
+  // Stadia Maps (formerly Stamen, API key required)
   // =========================================================================
   'Stadia.AlidadeSmooth': {
     name: 'Stadia Alidade Smooth',
-    url: 'https://tiles.stadiamaps.com/tiles/alidade_smooth/{z}/{x}/{y}{r}.png',
+    url: 'https://tiles.stadiamaps.com/tiles/alidade_smooth/{z}/{x}/{y}{r}.png?api_key={api_key}',
     attribution:
       '&copy; <a href="https://stadiamaps.com/">Stadia Maps</a>, &copy; <a href="https://openmaptiles.org/">OpenMapTiles</a> &copy; <a href="http://openstreetmap.org">OpenStreetMap</a> contributors',
     maxZoom: 20,
+    keyPlaceholder: 'api_key',
+    theme: 'light',
+    hasLabels: true,
+    license: STADIA_LICENSE,
   },
   'Stadia.AlidadeSmoothDark': {
     name: 'Stadia Alidade Smooth Dark',
-    url: 'https://tiles.stadiamaps.com/tiles/alidade_smooth_dark/{z}/{x}/{y}{r}.png',
+    url: 'https://tiles.stadiamaps.com/tiles/alidade_smooth_dark/{z}/{x}/{y}{r}.png?api_key={api_key}',
     attribution:
       '&copy; <a href="https://stadiamaps.com/">Stadia Maps</a>, &copy; <a href="https://openmaptiles.org/">OpenMapTiles</a> &copy; <a href="http://openstreetmap.org">OpenStreetMap</a> contributors',
     maxZoom: 20,
+    keyPlaceholder: 'api_key',
+    theme: 'dark',
+    hasLabels: true,
+    license: STADIA_LICENSE,
   },
   'Stadia.OSMBright': {
     name: 'Stadia OSM Bright',
-    url: 'https://tiles.stadiamaps.com/tiles/osm_bright/{z}/{x}/{y}{r}.png',
+    url: 'https://tiles.stadiamaps.com/tiles/osm_bright/{z}/{x}/{y}{r}.png?api_key={api_key}',
     attribution:
       '&copy; <a href="https://stadiamaps.com/">Stadia Maps</a>, &copy; <a href="https://openmaptiles.org/">OpenMapTiles</a> &copy; <a href="http://openstreetmap.org">OpenStreetMap</a> contributors',
     maxZoom: 20,
+    keyPlaceholder: 'api_key',
+    theme: 'light',
+    hasLabels: true,
+    license: STADIA_LICENSE,
   },
   'Stadia.Outdoors': {
     name: 'Stadia Outdoors',
-    url: 'https://tiles.stadiamaps.com/tiles/outdoors/{z}/{x}/{y}{r}.png',
+    url: 'https://tiles.stadiamaps.com/tiles/outdoors/{z}/{x}/{y}{r}.png?api_key={api_key}',
     attribution:
       '&copy; <a href="https://stadiamaps.com/">Stadia Maps</a>, &copy; <a href="https://openmaptiles.org/">OpenMapTiles</a> &copy; <a href="http://openstreetmap.org">OpenStreetMap</a> contributors',
     maxZoom: 20,
+    keyPlaceholder: 'api_key',
+    theme: 'terrain',
+    hasLabels: true,
+    license: STADIA_LICENSE,
   },
   'Stadia.StamenToner': {
     name: 'Stadia Stamen Toner',
-    url: 'https://tiles.stadiamaps.com/tiles/stamen_toner/{z}/{x}/{y}{r}.png',
+    url: 'https://tiles.stadiamaps.com/tiles/stamen_toner/{z}/{x}/{y}{r}.png?api_key={api_key}',
     attribution:
       '&copy; <a href="https://stadiamaps.com/">Stadia Maps</a>, &copy; <a href="https://stamen.com/">Stamen Design</a> &copy; <a href="http://openstreetmap.org">OpenStreetMap</a> contributors',
     maxZoom: 20,
+    keyPlaceholder: 'api_key',
+    theme: 'light',
+    hasLabels: true,
+    license: STADIA_LICENSE,
   },
   'Stadia.StamenTonerLite': {
     name: 'Stadia Stamen Toner Lite',
-    url: 'https://tiles.stadiamaps.com/tiles/stamen_toner_lite/{z}/{x}/{y}{r}.png',
+    url: 'https://tiles.stadiamaps.com/tiles/stamen_toner_lite/{z}/{x}/{y}{r}.png?api_key={api_key}',
     attribution:
       '&copy; <a href="https://stadiamaps.com/">Stadia Maps</a>, &copy; <a href="https://stamen.com/">Stamen Design</a> &copy; <a href="http://openstreetmap.org">OpenStreetMap</a> contributors',
     maxZoom: 20,
+    keyPlaceholder: 'api_key',
+    theme: 'light',
+    hasLabels: true,
+    license: STADIA_LICENSE,
   },
   'Stadia.StamenWatercolor': {
     name: 'Stadia Stamen Watercolor',
-    url: 'https://tiles.stadiamaps.com/tiles/stamen_watercolor/{z}/{x}/{y}.jpg',
+    url: 'https://tiles.stadiamaps.com/tiles/stamen_watercolor/{z}/{x}/{y}.jpg?api_key={api_key}',
     attribution:
       '&copy; <a href="https://stadiamaps.com/">Stadia Maps</a>, &copy; <a href="https://stamen.com/">Stamen Design</a> &copy; <a href="http://openstreetmap.org">OpenStreetMap</a> contributors',
     maxZoom: 16,
+    keyPlaceholder: 'api_key',
+    theme: 'light',
+    hasLabels: false,
+    license: STADIA_LICENSE,
   },
   'Stadia.StamenTerrain': {
     name: 'Stadia Stamen Terrain',
-    url: 'https://tiles.stadiamaps.com/tiles/stamen_terrain/{z}/{x}/{y}{r}.png',
+    url: 'https://tiles.stadiamaps.com/tiles/stamen_terrain/{z}/{x}/{y}{r}.png?api_key={api_key}',
     attribution:
       '&copy; <a href="https://stadiamaps.com/">Stadia Maps</a>, &copy; <a href="https://stamen.com/">Stamen Design</a> &copy; <a href="http://openstreetmap.org">OpenStreetMap</a> contributors',
     maxZoom: 18,
+    keyPlaceholder: 'api_key',
+    theme: 'terrain',
+    hasLabels: true,
+    license: STADIA_LICENSE,
+  },
+
+  // =========================================================================
+  // Thunderforest (API key required)
+  // =========================================================================
+  'Thunderforest.OpenCycleMap': {
+    name: 'Thunderforest OpenCycleMap',
+    url: 'https://{s}.tile.thunderforest.com/cycle/{z}/{x}/{y}{r}.png?apikey={apikey}',
+    attribution:
+      'Maps &copy; <a href="https://www.thunderforest.com/">Thunderforest</a>, Data &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 22,
+    subdomains: 'abc',
+    keyPlaceholder: 'apikey',
+    theme: 'light',
+    hasLabels: true,
+    license: THUNDERFOREST_LICENSE,
+  },
+  'Thunderforest.Transport': {
+    name: 'Thunderforest Transport',
+    url: 'https://{s}.tile.thunderforest.com/transport/{z}/{x}/{y}{r}.png?apikey={apikey}',
+    attribution:
+      'Maps &copy; <a href="https://www.thunderforest.com/">Thunderforest</a>, Data &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 22,
+    subdomains: 'abc',
+    keyPlaceholder: 'apikey',
+    theme: 'light',
+    hasLabels: true,
+    license: THUNDERFOREST_LICENSE,
+  },
+  'Thunderforest.Landscape': {
+    name: 'Thunderforest Landscape',
+    url: 'https://{s}.tile.thunderforest.com/landscape/{z}/{x}/{y}{r}.png?apikey={apikey}',
+    attribution:
+      'Maps &copy; <a href="https://www.thunderforest.com/">Thunderforest</a>, Data &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 22,
+    subdomains: 'abc',
+    keyPlaceholder: 'apikey',
+    theme: 'terrain',
+    hasLabels: true,
+    license: THUNDERFOREST_LICENSE,
+  },
+  'Thunderforest.Outdoors': {
+    name: 'Thunderforest Outdoors',
+    url: 'https://{s}.tile.thunderforest.com/outdoors/{z}/{x}/{y}{r}.png?apikey={apikey}',
+    attribution:
+      'Maps &copy; <a href="https://www.thunderforest.com/">Thunderforest</a>, Data &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 22,
+    subdomains: 'abc',
+    keyPlaceholder: 'apikey',
+    theme: 'terrain',
+    hasLabels: true,
+    license: THUNDERFOREST_LICENSE,
+  },
+
+  // =========================================================================
+  // MapTiler (API key required)
+  // =========================================================================
+  'MapTiler.Streets': {
+    name: 'MapTiler Streets',
+    url: 'https://api.maptiler.com/maps/streets-v2/256/{z}/{x}/{y}{r}.png?key={key}',
+    attribution:
+      '<a href="https://www.maptiler.com/copyright/">&copy; MapTiler</a> <a href="https://www.openstreetmap.org/copyright">&copy; OpenStreetMap contributors</a>',
+    maxZoom: 22,
+    keyPlaceholder: 'key',
+    theme: 'light',
+    hasLabels: true,
+    license: MAPTILER_LICENSE,
+  },
+  'MapTiler.Topo': {
+    name: 'MapTiler Topo',
+    url: 'https://api.maptiler.com/maps/topo-v2/256/{z}/{x}/{y}{r}.png?key={key}',
+    attribution:
+      '<a href="https://www.maptiler.com/copyright/">&copy; MapTiler</a> <a href="https://www.openstreetmap.org/copyright">&copy; OpenStreetMap contributors</a>',
+    maxZoom: 22,
+    keyPlaceholder: 'key',
+    theme: 'terrain',
+    hasLabels: true,
+    license: MAPTILER_LICENSE,
+  },
+  'MapTiler.Satellite': {
+    name: 'MapTiler Satellite',
+    url: 'https://api.maptiler.com/tiles/satellite-v2/{z}/{x}/{y}.jpg?key={key}',
+    attribution:
+      '<a href="https://www.maptiler.com/copyright/">&copy; MapTiler</a> <a href="https://www.openstreetmap.org/copyright">&copy; OpenStreetMap contributors</a>',
+    maxZoom: 20,
+    tileSize: 512,
+    keyPlaceholder: 'key',
+    theme: 'imagery',
+    hasLabels: false,
+    license: MAPTILER_LICENSE,
   },
 
   // =========================================================================
@@ -292,23 +522,72 @@ export const basemaps: BasemapCatalog = {
     url: 'https://mt1.google.com/vt/lyrs=m&x={x}&y={y}&z={z}',
     attribution: '&copy; Google',
     maxZoom: 21,
+    theme: 'light',
+    hasLabels: true,
+    license: GOOGLE_LICENSE,
   },
   'Google.Satellite': {
     name: 'Google Satellite',
     url: 'https://mt1.google.com/vt/lyrs=s&x={x}&y={y}&z={z}',
     attribution: '&copy; Google',
     maxZoom: 21,
+    theme: 'imagery',
+    hasLabels: false,
+    license: GOOGLE_LICENSE,
   },
   'Google.Hybrid': {
     name: 'Google Hybrid',
     url: 'https://mt1.google.com/vt/lyrs=y&x={x}&y={y}&z={z}',
     attribution: '&copy; Google',
     maxZoom: 21,
+    theme: 'imagery',
+    hasLabels: true,
+    license: GOOGLE_LICENSE,
   },
   'Google.Terrain': {
     name: 'Google Terrain',
     url: 'https://mt1.google.com/vt/lyrs=p&x={x}&y={y}&z={z}',
     attribution: '&copy; Google',
     maxZoom: 21,
+    theme: 'terrain',
+    hasLabels: true,
+    license: GOOGLE_LICENSE,
+  },
+
+  // =========================================================================
+  // OpenFreeMap (vector styles)
+  // =========================================================================
+  'OpenFreeMap.Liberty': {
+    kind: 'style',
+    name: 'OpenFreeMap Liberty',
+    url: 'https://tiles.openfreemap.org/styles/liberty',
+    attribution:
+      '<a href="https://openfreemap.org">OpenFreeMap</a> &copy; <a href="https://www.openmaptiles.org/">OpenMapTiles</a> Data from <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+    maxZoom: 20,
+    theme: 'light',
+    hasLabels: true,
+    license: OPENFREEMAP_LICENSE,
+  },
+  'OpenFreeMap.Bright': {
+    kind: 'style',
+    name: 'OpenFreeMap Bright',
+    url: 'https://tiles.openfreemap.org/styles/bright',
+    attribution:
+      '<a href="https://openfreemap.org">OpenFreeMap</a> &copy; <a href="https://www.openmaptiles.org/">OpenMapTiles</a> Data from <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+    maxZoom: 20,
+    theme: 'light',
+    hasLabels: true,
+    license: OPENFREEMAP_LICENSE,
+  },
+  'OpenFreeMap.Positron': {
+    kind: 'style',
+    name: 'OpenFreeMap Positron',
+    url: 'https://tiles.openfreemap.org/styles/positron',
+    attribution:
+      '<a href="https://openfreemap.org">OpenFreeMap</a> &copy; <a href="https://www.openmaptiles.org/">OpenMapTiles</a> Data from <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+    maxZoom: 20,
+    theme: 'light',
+    hasLabels: true,
+    license: OPENFREEMAP_LICENSE,
   },
 };
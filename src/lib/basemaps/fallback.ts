@@ -0,0 +1,77 @@
+import type { Map } from 'maplibre-gl';
+import { BASEMAP_SOURCE_ID } from './index';
+import { STYLE_BASEMAP_PREFIX } from './style';
+import { MapExtendError } from '../utils/validation';
+
+interface ErrorWatcher {
+  onError: (event: { error?: unknown; sourceId?: string }) => void;
+  onData: (event: { sourceId?: string; tile?: unknown }) => void;
+}
+
+// Active error watchers per map instance
+const watchers = new WeakMap<Map, ErrorWatcher>();
+
+/**
+ * Check whether an event belongs to the basemap source.
+ *
+ * @param sourceId - Source ID of the event
+ * @returns True if the source is the basemap or part of a style basemap
+ */
+function isBasemapSource(sourceId: string | undefined): boolean {
+  return !!sourceId && (sourceId === BASEMAP_SOURCE_ID || sourceId.startsWith(STYLE_BASEMAP_PREFIX));
+}
+
+/**
+ * Watch the basemap for tile errors. The callback is invoked once the number of
+ * consecutive errors reaches the threshold, or as soon as a style basemap fails
+ * to load. A successfully loaded tile resets the count.
+ *
+ * @param map - MapLibre map instance
+ * @param threshold - Number of consecutive errors
+ * @param onFailure - Called with the error count and the last error
+ */
+export function watchBasemapErrors(
+  map: Map,
+  threshold: number,
+  onFailure: (errors: number, error: unknown) => void
+): void {
+  unwatchBasemapErrors(map);
+
+  let errors = 0;
+  const watcher: ErrorWatcher = {
+    onError: (event) => {
+      const styleFailed =
+        event.error instanceof MapExtendError && event.error.code === 'STYLE_LOAD_FAILED';
+      if (!styleFailed && !isBasemapSource(event.sourceId)) return;
+
+      errors++;
+      if (styleFailed || errors >= threshold) {
+        unwatchBasemapErrors(map);
+        onFailure(errors, event.error);
+      }
+    },
+    onData: (event) => {
+      if (event.tile && isBasemapSource(event.sourceId)) {
+        errors = 0;
+      }
+    },
+  };
+
+  map.on('error', watcher.onError);
+  map.on('sourcedata', watcher.onData);
+  watchers.set(map, watcher);
+}
+
+/**
+ * Stop watching the basemap for tile errors.
+ *
+ * @param map - MapLibre map instance
+ */
+export function unwatchBasemapErrors(map: Map): void {
+  const watcher = watchers.get(map);
+  if (!watcher) return;
+
+  map.off('error', watcher.onError);
+  map.off('sourcedata', watcher.onData);
+  watchers.delete(map);
+}
@@ -1,26 +1,103 @@
 import type { Map } from 'maplibre-gl';
 import { basemaps } from './catalog';
-import type { BasemapName, BasemapDefinition } from './types';
+import { getRegisteredBasemaps } from './registry';
+import { addStyleBasemap, removeStyleBasemap, STYLE_BASEMAP_PREFIX } from './style';
+import { applyApiKey } from './keys';
+import { buildTileUrls, createRasterSource, getTileScheme, getTileUrl } from './raster';
+import { watchBasemapErrors, unwatchBasemapErrors } from './fallback';
+import { getBasemapRasterPaint } from './appearance';
+import { MapExtendError } from '../utils/validation';
+import type {
+  AddBasemapOptions,
+  BasemapFallbackEvent,
+  BasemapName,
+  BasemapDefinition,
+  BasemapCatalog,
+  RasterBasemapDefinition,
+  TileCoordinates,
+} from './types';
 
 export { basemaps } from './catalog';
-export type { BasemapName, BasemapDefinition, BasemapCatalog } from './types';
+export { normalizeSprite, STYLE_BASEMAP_PREFIX } from './style';
+export { setProviderKeys, getProviderKey, getProviderName } from './keys';
+export {
+  setBasemapOverlay,
+  getBasemapOverlay,
+  isOverlayLayer,
+  resetOverlayState,
+  resolveBeforeId,
+  OVERLAY_LAYER_ID,
+} from './overlay';
+export {
+  registerBasemap,
+  registerBasemaps,
+  unregisterBasemap,
+  subscribeBasemapRegistry,
+} from './registry';
+export {
+  setBasemapStyle,
+  getBasemapStyle,
+  getBasemapRasterPaint,
+  BASEMAP_STYLE_PRESETS,
+} from './appearance';
+export { getBasemapMetadata, findBasemaps } from './metadata';
+export { loadXyzServicesCatalog, parseXyzServicesCatalog } from './xyzservices';
+export type { XyzServicesProvider, XyzServicesProviders } from './xyzservices';
+export type {
+  AddBasemapOptions,
+  BasemapFallbackEvent,
+  BasemapStyleOptions,
+  BasemapStylePreset,
+  BasemapTheme,
+  TileScheme,
+  BasemapMetadata,
+  BasemapQuery,
+  BasemapName,
+  BuiltInBasemapName,
+  CustomBasemapNames,
+  BasemapDefinition,
+  RasterBasemapDefinition,
+  StyleBasemapDefinition,
+  BasemapCatalog,
+  TileCoordinates,
+} from './types';
 
 // Store for tracking current basemap per map instance
 const currentBasemapMap = new WeakMap<Map, BasemapName | null>();
-const BASEMAP_SOURCE_ID = '__maplibre-extend-basemap';
-const BASEMAP_LAYER_ID = '__maplibre-extend-basemap-layer';
+export const BASEMAP_SOURCE_ID = '__maplibre-extend-basemap';
+export const BASEMAP_LAYER_ID = '__maplibre-extend-basemap-layer';
 
 /**
- * Get all available basemap names.
+ * Check whether a style layer belongs to the basemap managed by this library.
+ *
+ * @param layerId - Layer ID
+ * @returns True if the layer is part of the basemap
+ */
+export function isBasemapLayer(layerId: string): boolean {
+  return layerId === BASEMAP_LAYER_ID || layerId.startsWith(STYLE_BASEMAP_PREFIX);
+}
+
+/**
+ * Get the full basemap catalog, including basemaps registered at runtime.
+ *
+ * @returns Basemap catalog
+ */
+export function getBasemapCatalog(): BasemapCatalog {
+  return { ...basemaps, ...getRegisteredBasemaps() };
+}
+
+/**
+ * Get all available basemap names, including basemaps registered at runtime.
  *
  * @returns Array of basemap names
  */
 export function getBasemapNames(): BasemapName[] {
-  return Object.keys(basemaps) as BasemapName[];
+  return Object.keys(getBasemapCatalog()) as BasemapName[];
 }
 
 /**
- * Get basemap definition by name.
+ * Get basemap definition by name. Registered basemaps take precedence over
+ * built-in basemaps with the same name.
  *
  * @param name - Basemap name
  * @returns Basemap definition or undefined
@@ -28,58 +105,156 @@ export function getBasemapNames(): BasemapName[] {
 export function getBasemapDefinition(
   name: BasemapName
 ): BasemapDefinition | undefined {
-  return basemaps[name];
+  const registered = getRegisteredBasemaps();
+  if (Object.prototype.hasOwnProperty.call(registered, name)) {
+    return registered[name];
+  }
+  return Object.prototype.hasOwnProperty.call(basemaps, name) ? basemaps[name] : undefined;
 }
 
 /**
- * Build tile URL from basemap definition, handling subdomains.
+ * Default tile used for basemap thumbnails (Europe at zoom 3).
+ */
+const DEFAULT_THUMBNAIL_TILE: TileCoordinates = { z: 3, x: 4, y: 2 };
+
+/**
+ * Get a preview image URL for a basemap: the definition's thumbnail, or a sample
+ * tile for raster basemaps.
  *
- * @param definition - Basemap definition
- * @returns Array of tile URLs
+ * @param name - Basemap name
+ * @param tile - Tile coordinates of the sample tile
+ * @returns Image URL, or null if no preview is available (e.g., missing API key)
  */
-function buildTileUrls(definition: BasemapDefinition): string[] {
-  const { url, subdomains } = definition;
-
-  if (subdomains) {
-    // Generate URLs for each subdomain
-    return subdomains.split('').map((s) =>
-      url
-        .replace('{s}', s)
-        .replace('{r}', typeof window !== 'undefined' && window.devicePixelRatio > 1 ? '@2x' : '')
-    );
+export function getBasemapThumbnailUrl(
+  name: BasemapName,
+  tile: TileCoordinates = DEFAULT_THUMBNAIL_TILE
+): string | null {
+  const definition = getBasemapDefinition(name);
+  if (!definition) return null;
+  if (definition.thumbnail) return definition.thumbnail;
+  if (definition.kind === 'style') return null;
+
+  let url: string;
+  try {
+    url = applyApiKey(definition.url, name, definition);
+  } catch {
+    return null;
   }
 
-  // Single URL without subdomains
-  return [url.replace('{r}', typeof window !== 'undefined' && window.devicePixelRatio > 1 ? '@2x' : '')];
+  return getTileUrl(buildTileUrls(definition, url)[0], tile, getTileScheme(definition));
 }
 
 /**
  * Add a basemap layer to the map. This adds the basemap as the bottom layer.
  *
+ * Given a list of names, the first candidate that can be added is used. Its tiles
+ * are watched for errors, and after `errorThreshold` consecutive errors the next
+ * candidate replaces it. Each switch fires a 'basemapfallback' event with a
+ * `BasemapFallbackEvent` payload; `to` is null once no candidate is left.
+ *
  * @param map - MapLibre map instance
- * @param name - Basemap name
+ * @param name - Basemap name or ordered list of candidate names
+ * @param options - Basemap options
  * @returns The map instance for chaining
+ * @throws MapExtendError if the basemap is unknown or requires an API key that is not available
+ *
+ * @example
+ * ```ts
+ * map.on('basemapfallback', (e) => console.warn(`${e.from} failed, using ${e.to}`));
+ * map.addBasemap(['Esri.WorldImagery', 'USGS.USImagery'], { errorThreshold: 5 });
+ * ```
  */
-export function addBasemap(map: Map, name: BasemapName): Map {
+export function addBasemap(
+  map: Map,
+  name: BasemapName | BasemapName[],
+  options: AddBasemapOptions = {}
+): Map {
+  if (!Array.isArray(name)) {
+    addSingleBasemap(map, name, options);
+    return map;
+  }
+
+  let lastError: unknown = new MapExtendError(
+    'At least one basemap name is required',
+    'INVALID_BASEMAP_NAME',
+    { name }
+  );
+  for (let i = 0; i < name.length; i++) {
+    try {
+      addSingleBasemap(map, name[i], options);
+    } catch (error) {
+      // Unknown or keyless candidates are skipped
+      lastError = error;
+      continue;
+    }
+
+    const remaining = name.slice(i + 1);
+    watchBasemapErrors(map, options.errorThreshold ?? 3, (errors, error) => {
+      let to: BasemapName | null = null;
+      if (remaining.length > 0) {
+        try {
+          addBasemap(map, remaining, options);
+          to = getBasemap(map);
+        } catch (e) {
+          map.fire('error', { error: e });
+        }
+      }
+      const event: BasemapFallbackEvent = { from: name[i], to, errors, error };
+      map.fire('basemapfallback', event);
+    });
+    return map;
+  }
+
+  throw lastError;
+}
+
+/**
+ * Add a single basemap, replacing the current one.
+ *
+ * @param map - MapLibre map instance
+ * @param name - Basemap name
+ * @param options - Basemap options
+ * @throws MapExtendError if the basemap is unknown or requires an API key that is not available
+ */
+function addSingleBasemap(map: Map, name: BasemapName, options: AddBasemapOptions): void {
   const definition = getBasemapDefinition(name);
   if (!definition) {
-    throw new Error(
-      `Unknown basemap: ${name}. Available basemaps: ${getBasemapNames().join(', ')}`
+    throw new MapExtendError(
+      `Unknown basemap: ${name}. Available basemaps: ${getBasemapNames().join(', ')}`,
+      'UNKNOWN_BASEMAP',
+      { name }
     );
   }
 
+  // Resolve the API key before touching the current basemap
+  const url = applyApiKey(definition.url, name, definition, options.apiKey);
+
   // Remove existing basemap if present
   removeBasemap(map);
 
-  // Add the basemap source
-  map.addSource(BASEMAP_SOURCE_ID, {
-    type: 'raster',
-    tiles: buildTileUrls(definition),
-    tileSize: definition.tileSize || 256,
-    attribution: definition.attribution,
-    minzoom: definition.minZoom || 0,
-    maxzoom: definition.maxZoom || 22,
-  });
+  if (definition.kind === 'style') {
+    // Style basemaps are fetched and merged asynchronously
+    addStyleBasemap(map, url, (error) => {
+      currentBasemapMap.set(map, null);
+      map.fire('error', { error });
+    });
+  } else {
+    addRasterBasemap(map, definition, url);
+  }
+
+  // Track current basemap
+  currentBasemapMap.set(map, name);
+}
+
+/**
+ * Add a raster XYZ basemap source and layer at the bottom of the layer stack.
+ *
+ * @param map - MapLibre map instance
+ * @param definition - Raster basemap definition
+ * @param url - URL template with the API key already substituted
+ */
+function addRasterBasemap(map: Map, definition: RasterBasemapDefinition, url: string): void {
+  map.addSource(BASEMAP_SOURCE_ID, createRasterSource(definition, url));
 
   // Add the basemap layer at the bottom
   const layers = map.getStyle()?.layers || [];
@@ -92,26 +267,27 @@ export function addBasemap(map: Map, name: BasemapName): Map {
       source: BASEMAP_SOURCE_ID,
       paint: {
         'raster-opacity': 1,
+        ...getBasemapRasterPaint(map),
       },
     },
     firstLayerId
   );
-
-  // Track current basemap
-  currentBasemapMap.set(map, name);
-
-  return map;
 }
 
 /**
  * Set (replace) the basemap. Alias for addBasemap.
  *
  * @param map - MapLibre map instance
- * @param name - Basemap name
+ * @param name - Basemap name or ordered list of candidate names
+ * @param options - Basemap options
  * @returns The map instance for chaining
  */
-export function setBasemap(map: Map, name: BasemapName): Map {
-  return addBasemap(map, name);
+export function setBasemap(
+  map: Map,
+  name: BasemapName | BasemapName[],
+  options: AddBasemapOptions = {}
+): Map {
+  return addBasemap(map, name, options);
 }
 
 /**
@@ -126,6 +302,19 @@ function removeBasemap(map: Map): void {
   if (map.getSource(BASEMAP_SOURCE_ID)) {
     map.removeSource(BASEMAP_SOURCE_ID);
   }
+  removeStyleBasemap(map);
+  unwatchBasemapErrors(map);
+  currentBasemapMap.set(map, null);
+}
+
+/**
+ * Forget the current basemap without touching the style. Used when a style
+ * change removed the basemap layers.
+ *
+ * @param map - MapLibre map instance
+ */
+export function resetBasemapState(map: Map): void {
+  unwatchBasemapErrors(map);
   currentBasemapMap.set(map, null);
 }
 
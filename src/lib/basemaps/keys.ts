@@ -0,0 +1,81 @@
+import type { BasemapDefinition } from './types';
+import { MapExtendError } from '../utils/validation';
+
+/**
+ * API keys per provider (e.g., { Stadia: '...' }).
+ */
+const providerKeys: Record<string, string> = {};
+
+/**
+ * Set API keys for keyed basemap providers. Keys are merged with previously set
+ * keys; pass null to remove a key.
+ *
+ * @param keys - API keys by provider name (e.g., { Stadia: '...', Thunderforest: '...' })
+ *
+ * @example
+ * ```ts
+ * setProviderKeys({ Stadia: 'my-stadia-key', MapTiler: 'my-maptiler-key' });
+ * map.setBasemap('Stadia.AlidadeSmooth');
+ * ```
+ */
+export function setProviderKeys(keys: Record<string, string | null>): void {
+  Object.entries(keys).forEach(([provider, key]) => {
+    if (key) {
+      providerKeys[provider] = key;
+    } else {
+      delete providerKeys[provider];
+    }
+  });
+}
+
+/**
+ * Get the API key set for a provider.
+ *
+ * @param provider - Provider name
+ * @returns API key or undefined
+ */
+export function getProviderKey(provider: string): string | undefined {
+  return providerKeys[provider];
+}
+
+/**
+ * Get the provider name of a basemap, used to look up its API key.
+ *
+ * @param name - Basemap name (e.g., 'Stadia.AlidadeSmooth')
+ * @returns Provider name (e.g., 'Stadia')
+ */
+export function getProviderName(name: string): string {
+  return name.split('.')[0];
+}
+
+/**
+ * Substitute the API key placeholder of a basemap URL.
+ *
+ * @param url - URL template
+ * @param name - Basemap name
+ * @param definition - Basemap definition
+ * @param apiKey - API key passed for this call (takes precedence over provider keys)
+ * @returns URL with the API key substituted
+ * @throws MapExtendError if the basemap requires a key and none is available
+ */
+export function applyApiKey(
+  url: string,
+  name: string,
+  definition: BasemapDefinition,
+  apiKey?: string
+): string {
+  const placeholder = definition.keyPlaceholder;
+  if (!placeholder) return url;
+
+  const provider = getProviderName(name);
+  const key = apiKey || getProviderKey(provider);
+  if (!key) {
+    throw new MapExtendError(
+      `Basemap ${name} requires an API key. Set it with setProviderKeys({ ${provider}: '...' }) or pass apiKey.`,
+      'MISSING_API_KEY',
+      { name, provider, placeholder }
+    );
+  }
+
+  return url.split(`{${placeholder}}`).join(encodeURIComponent(key));
+}
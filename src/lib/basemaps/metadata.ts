@@ -0,0 +1,91 @@
+import type { BasemapMetadata, BasemapName, BasemapQuery } from './types';
+import { getBasemapDefinition, getBasemapNames } from './index';
+import { getProviderName } from './keys';
+
+/**
+ * Get the structured metadata of a basemap.
+ *
+ * @param name - Basemap name
+ * @returns Basemap metadata or undefined if the basemap is unknown
+ */
+export function getBasemapMetadata(name: BasemapName): BasemapMetadata | undefined {
+  const definition = getBasemapDefinition(name);
+  if (!definition) return undefined;
+
+  return {
+    name,
+    title: definition.name,
+    provider: definition.provider ?? getProviderName(name),
+    kind: definition.kind ?? 'raster',
+    theme: definition.theme,
+    hasLabels: definition.hasLabels,
+    requiresKey: !!definition.keyPlaceholder,
+    bounds: definition.bounds,
+    license: definition.license,
+  };
+}
+
+/**
+ * Check whether a value matches a single value or one of a list of values.
+ *
+ * @param value - Value to check
+ * @param expected - Expected value or values
+ * @returns True if the value matches
+ */
+function matchesAny<T>(value: T, expected: T | T[]): boolean {
+  return Array.isArray(expected) ? expected.includes(value) : value === expected;
+}
+
+/**
+ * Find basemaps by their metadata. Basemaps without a theme or label information
+ * (e.g., some registered ones) do not match queries on these fields.
+ *
+ * @param query - Criteria that all must match
+ * @returns Names of the matching basemaps
+ *
+ * @example
+ * ```ts
+ * // Free dark basemaps for automatic dark mode
+ * const [dark] = findBasemaps({ theme: 'dark', requiresKey: false });
+ * map.setBasemap(dark);
+ *
+ * // Imagery covering a location
+ * findBasemaps({ theme: 'imagery', covers: [-77.03, 38.9] });
+ * ```
+ */
+export function findBasemaps(query: BasemapQuery = {}): BasemapName[] {
+  const search = query.search?.trim().toLowerCase();
+
+  return getBasemapNames().filter((name) => {
+    const metadata = getBasemapMetadata(name)!;
+
+    if (query.provider !== undefined && !matchesAny(metadata.provider, query.provider)) {
+      return false;
+    }
+    if (query.theme !== undefined) {
+      if (!metadata.theme || !matchesAny(metadata.theme, query.theme)) return false;
+    }
+    if (query.hasLabels !== undefined && metadata.hasLabels !== query.hasLabels) {
+      return false;
+    }
+    if (query.requiresKey !== undefined && metadata.requiresKey !== query.requiresKey) {
+      return false;
+    }
+    if (query.kind !== undefined && metadata.kind !== query.kind) {
+      return false;
+    }
+    if (
+      search &&
+      !name.toLowerCase().includes(search) &&
+      !metadata.title.toLowerCase().includes(search)
+    ) {
+      return false;
+    }
+    if (query.covers && metadata.bounds) {
+      const [lng, lat] = query.covers;
+      const [west, south, east, north] = metadata.bounds;
+      if (lng < west || lng > east || lat < south || lat > north) return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,126 @@
+import type { Map } from 'maplibre-gl';
+import type { AddBasemapOptions, BasemapName } from './types';
+import { getBasemapDefinition, getBasemapNames } from './index';
+import { applyApiKey } from './keys';
+import { createRasterSource } from './raster';
+import { MapExtendError } from '../utils/validation';
+
+// Store for tracking the current overlay per map instance
+const currentOverlayMap = new WeakMap<Map, BasemapName | null>();
+export const OVERLAY_SOURCE_ID = '__maplibre-extend-overlay';
+export const OVERLAY_LAYER_ID = '__maplibre-extend-overlay-layer';
+
+/**
+ * Check whether a style layer is the basemap overlay managed by this library.
+ *
+ * @param layerId - Layer ID
+ * @returns True if the layer is the overlay
+ */
+export function isOverlayLayer(layerId: string): boolean {
+  return layerId === OVERLAY_LAYER_ID;
+}
+
+/**
+ * Set a basemap overlay (e.g., 'CartoDB.PositronOnlyLabels') that stays on top
+ * of all layers added through this library. Pass null to remove the overlay.
+ *
+ * @param map - MapLibre map instance
+ * @param name - Basemap name or null
+ * @param options - Basemap options
+ * @returns The map instance for chaining
+ * @throws MapExtendError if the basemap is unknown or not a raster basemap
+ */
+export function setBasemapOverlay(
+  map: Map,
+  name: BasemapName | null,
+  options: AddBasemapOptions = {}
+): Map {
+  if (name === null) {
+    removeBasemapOverlay(map);
+    return map;
+  }
+
+  const definition = getBasemapDefinition(name);
+  if (!definition) {
+    throw new MapExtendError(
+      `Unknown basemap: ${name}. Valid options: ${getBasemapNames().join(', ')}`,
+      'UNKNOWN_BASEMAP',
+      { name }
+    );
+  }
+  if (definition.kind === 'style') {
+    throw new MapExtendError(
+      `Basemap ${name} is a style basemap and cannot be used as an overlay`,
+      'UNSUPPORTED_OVERLAY',
+      { name }
+    );
+  }
+
+  const url = applyApiKey(definition.url, name, definition, options.apiKey);
+
+  removeBasemapOverlay(map);
+
+  map.addSource(OVERLAY_SOURCE_ID, createRasterSource(definition, url));
+
+  // Add the overlay layer on top of everything
+  map.addLayer({
+    id: OVERLAY_LAYER_ID,
+    type: 'raster',
+    source: OVERLAY_SOURCE_ID,
+    paint: {
+      'raster-opacity': 1,
+    },
+  });
+
+  currentOverlayMap.set(map, name);
+
+  return map;
+}
+
+/**
+ * Remove the basemap overlay layer and source.
+ *
+ * @param map - MapLibre map instance
+ */
+function removeBasemapOverlay(map: Map): void {
+  if (map.getLayer(OVERLAY_LAYER_ID)) {
+    map.removeLayer(OVERLAY_LAYER_ID);
+  }
+  if (map.getSource(OVERLAY_SOURCE_ID)) {
+    map.removeSource(OVERLAY_SOURCE_ID);
+  }
+  currentOverlayMap.set(map, null);
+}
+
+/**
+ * Forget the current overlay without touching the style. Used when a style
+ * change removed the overlay layer.
+ *
+ * @param map - MapLibre map instance
+ */
+export function resetOverlayState(map: Map): void {
+  currentOverlayMap.set(map, null);
+}
+
+/**
+ * Get the current basemap overlay name.
+ *
+ * @param map - MapLibre map instance
+ * @returns Current overlay name or null
+ */
+export function getBasemapOverlay(map: Map): BasemapName | null {
+  return currentOverlayMap.get(map) || null;
+}
+
+/**
+ * Resolve where a new layer should be inserted. Without an explicit beforeId,
+ * layers go below the basemap overlay so labels stay on top.
+ *
+ * @param map - MapLibre map instance
+ * @param beforeId - Explicit beforeId
+ * @returns Layer ID to insert before, or undefined for the top
+ */
+export function resolveBeforeId(map: Map, beforeId?: string): string | undefined {
+  if (beforeId) return beforeId;
+  return getBasemapOverlay(map) ? OVERLAY_LAYER_ID : undefined;
+}
@@ -0,0 +1,126 @@
+import type { RasterSourceSpecification } from 'maplibre-gl';
+import type { RasterBasemapDefinition, TileCoordinates, TileScheme } from './types';
+import { withTileCache } from '../cache';
+
+/**
+ * Placeholders translated to the ones MapLibre understands. RESTful WMTS
+ * templates map directly to XYZ for Web Mercator tile matrix sets.
+ */
+const PLACEHOLDER_ALIASES: [RegExp, string][] = [
+  [/\{TileMatrix\}/gi, '{z}'],
+  [/\{TileRow\}/gi, '{y}'],
+  [/\{TileCol\}/gi, '{x}'],
+  [/\{-y\}/g, '{y}'],
+  [/\{q\}/g, '{quadkey}'],
+];
+
+/**
+ * Get the tile scheme of a basemap. Without an explicit scheme, it is inferred
+ * from the URL placeholders.
+ *
+ * @param definition - Raster basemap definition
+ * @returns Tile scheme
+ */
+export function getTileScheme(definition: RasterBasemapDefinition): TileScheme {
+  if (definition.scheme) return definition.scheme;
+
+  const { url } = definition;
+  if (url.includes('{-y}')) return 'tms';
+  if (/\{(quadkey|q)\}/.test(url)) return 'quadkey';
+  if (/\{TileMatrix\}/i.test(url)) return 'wmts';
+  return 'xyz';
+}
+
+/**
+ * Translate TMS, quadkey and WMTS placeholders to the ones MapLibre understands.
+ *
+ * @param url - URL template
+ * @returns URL template with {z}, {x}, {y} or {quadkey} placeholders
+ */
+export function normalizeTileUrl(url: string): string {
+  return PLACEHOLDER_ALIASES.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    url
+  );
+}
+
+/**
+ * Convert tile coordinates to a Bing Maps quadkey.
+ *
+ * @param tile - Tile coordinates
+ * @returns Quadkey
+ */
+export function tileToQuadkey({ z, x, y }: TileCoordinates): string {
+  let quadkey = '';
+  for (let i = z; i > 0; i--) {
+    const mask = 1 << (i - 1);
+    quadkey += String((x & mask ? 1 : 0) + (y & mask ? 2 : 0));
+  }
+  return quadkey;
+}
+
+/**
+ * Fill a normalized URL template for a tile, the same way MapLibre does.
+ *
+ * @param url - URL template from buildTileUrls
+ * @param tile - Tile coordinates (XYZ, origin at the top left)
+ * @param scheme - Tile scheme
+ * @returns Tile URL
+ */
+export function getTileUrl(url: string, tile: TileCoordinates, scheme: TileScheme = 'xyz'): string {
+  const y = scheme === 'tms' ? 2 ** tile.z - 1 - tile.y : tile.y;
+  return url
+    .replace(/\{z\}/g, String(tile.z))
+    .replace(/\{x\}/g, String(tile.x))
+    .replace(/\{y\}/g, String(y))
+    .replace(/\{quadkey\}/g, tileToQuadkey(tile));
+}
+
+/**
+ * Build tile URL from basemap definition, handling subdomains.
+ *
+ * @param definition - Basemap definition
+ * @param url - URL template with the API key already substituted
+ * @returns Array of tile URLs
+ */
+export function buildTileUrls(definition: RasterBasemapDefinition, url: string): string[] {
+  const { subdomains } = definition;
+  const template = normalizeTileUrl(url);
+
+  if (subdomains && subdomains.length > 0) {
+    // Generate URLs for each subdomain
+    const list = typeof subdomains === 'string' ? subdomains.split('') : subdomains;
+    return list.map((s) =>
+      template
+        .replace('{s}', s)
+        .replace('{r}', typeof window !== 'undefined' && window.devicePixelRatio > 1 ? '@2x' : '')
+    );
+  }
+
+  // Single URL without subdomains
+  return [template.replace('{r}', typeof window !== 'undefined' && window.devicePixelRatio > 1 ? '@2x' : '')];
+}
+
+/**
+ * Create a raster source specification from a basemap definition.
+ *
+ * @param definition - Raster basemap definition
+ * @param url - URL template with the API key already substituted
+ * @returns Raster source specification
+ */
+export function createRasterSource(
+  definition: RasterBasemapDefinition,
+  url: string
+): RasterSourceSpecification {
+  return {
+    type: 'raster',
+    tiles: withTileCache(buildTileUrls(definition, url)),
+    tileSize: definition.tileSize || 256,
+    attribution: definition.attribution,
+    bounds: definition.bounds,
+    minzoom: definition.minZoom || 0,
+    maxzoom: definition.maxZoom || 22,
+    // MapLibre flips y natively for TMS; quadkeys are filled in from {quadkey}
+    scheme: getTileScheme(definition) === 'tms' ? 'tms' : 'xyz',
+  };
+}
@@ -0,0 +1,136 @@
+import type { BasemapCatalog, BasemapDefinition } from './types';
+import { MapExtendError } from '../utils/validation';
+
+/**
+ * Basemaps registered at runtime. Entries shadow built-in catalog entries with
+ * the same name.
+ */
+const customBasemaps: BasemapCatalog = {};
+
+/**
+ * Listeners notified when the set of registered basemaps changes.
+ */
+const listeners = new Set<() => void>();
+
+/**
+ * Notify all listeners that the registry changed.
+ */
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Validate a basemap name and definition before registration.
+ *
+ * @param name - Basemap name
+ * @param definition - Basemap definition
+ * @throws MapExtendError if the name or definition is invalid
+ */
+function validateDefinition(name: string, definition: BasemapDefinition): void {
+  if (!name || typeof name !== 'string') {
+    throw new MapExtendError('Basemap name must be a non-empty string', 'INVALID_BASEMAP_NAME', {
+      name,
+    });
+  }
+
+  if (!definition || !definition.url) {
+    throw new MapExtendError(
+      `Invalid definition for basemap ${name}: url is required`,
+      'INVALID_BASEMAP_DEFINITION',
+      { name, definition }
+    );
+  }
+
+  if (
+    definition.kind !== 'style' &&
+    definition.scheme === 'quadkey' &&
+    !/\{(quadkey|q)\}/.test(definition.url)
+  ) {
+    throw new MapExtendError(
+      `Invalid definition for basemap ${name}: quadkey URLs need a {quadkey} placeholder`,
+      'INVALID_BASEMAP_DEFINITION',
+      { name, definition }
+    );
+  }
+}
+
+/**
+ * Register a custom basemap so it can be used like any built-in basemap.
+ *
+ * Registering a name that already exists replaces the previous definition.
+ * To get type-safe names, extend `CustomBasemapNames` through declaration merging.
+ *
+ * @param name - Basemap name (e.g., 'MyTiles.Streets')
+ * @param definition - Basemap definition
+ * @throws MapExtendError if the name or definition is invalid
+ *
+ * @example
+ * ```ts
+ * registerBasemap('MyTiles.Streets', {
+ *   name: 'My Streets',
+ *   url: 'https://tiles.example.com/streets/{z}/{x}/{y}.png',
+ *   attribution: '&copy; Example',
+ *   maxZoom: 19,
+ * });
+ * map.setBasemap('MyTiles.Streets');
+ * ```
+ */
+export function registerBasemap(name: string, definition: BasemapDefinition): void {
+  validateDefinition(name, definition);
+  customBasemaps[name] = { ...definition, name: definition.name || name };
+  notifyListeners();
+}
+
+/**
+ * Register several custom basemaps at once. Listeners are notified once.
+ *
+ * @param catalog - Basemap definitions by name
+ * @throws MapExtendError if a definition is invalid
+ */
+export function registerBasemaps(catalog: BasemapCatalog): void {
+  Object.entries(catalog).forEach(([name, definition]) => validateDefinition(name, definition));
+
+  Object.entries(catalog).forEach(([name, definition]) => {
+    customBasemaps[name] = { ...definition, name: definition.name || name };
+  });
+  notifyListeners();
+}
+
+/**
+ * Unregister a custom basemap. Built-in basemaps shadowed by the registration
+ * become available again.
+ *
+ * @param name - Basemap name
+ * @returns True if a registered basemap was removed
+ */
+export function unregisterBasemap(name: string): boolean {
+  if (!Object.prototype.hasOwnProperty.call(customBasemaps, name)) {
+    return false;
+  }
+
+  delete customBasemaps[name];
+  notifyListeners();
+  return true;
+}
+
+/**
+ * Get all basemaps registered at runtime.
+ *
+ * @returns Catalog of registered basemaps
+ */
+export function getRegisteredBasemaps(): BasemapCatalog {
+  return customBasemaps;
+}
+
+/**
+ * Subscribe to changes of the registered basemaps.
+ *
+ * @param listener - Callback invoked after a basemap is registered or unregistered
+ * @returns Function that removes the listener
+ */
+export function subscribeBasemapRegistry(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
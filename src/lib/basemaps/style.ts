@@ -0,0 +1,253 @@
+import type {
+  Map,
+  StyleSpecification,
+  LayerSpecification,
+  SourceSpecification,
+  SpriteSpecification,
+} from 'maplibre-gl';
+import { getBasemapRasterPaint } from './appearance';
+import { MapExtendError } from '../utils/validation';
+import { loadJson } from '../utils/loader';
+
+/**
+ * Prefix for source, layer and sprite IDs merged from a basemap style.
+ */
+export const STYLE_BASEMAP_PREFIX = '__maplibre-extend-basemap:';
+
+/**
+ * Paint and layout properties that reference sprite images.
+ */
+const IMAGE_PROPERTIES = [
+  'icon-image',
+  'fill-pattern',
+  'line-pattern',
+  'background-pattern',
+  'fill-extrusion-pattern',
+];
+
+// Pending style requests per map instance, aborted when the basemap changes
+const pendingRequests = new WeakMap<Map, AbortController>();
+
+/**
+ * Normalize a style sprite to the multi-sprite array form.
+ *
+ * @param sprite - Sprite specification
+ * @returns Array of sprite IDs and URLs
+ */
+export function normalizeSprite(
+  sprite: SpriteSpecification | undefined
+): { id: string; url: string }[] {
+  if (!sprite) return [];
+  if (typeof sprite === 'string') return [{ id: 'default', url: sprite }];
+  return sprite;
+}
+
+/**
+ * Prefix an image name so it resolves against the merged sprite.
+ *
+ * @param name - Image name, optionally prefixed with a sprite ID
+ * @param spriteIds - Mapping from original sprite ID to merged sprite ID
+ * @returns Rewritten image name
+ */
+function rewriteImageName(name: string, spriteIds: Record<string, string>): string {
+  const separator = name.indexOf(':');
+  const spriteId = separator > 0 ? name.slice(0, separator) : 'default';
+  const imageName = separator > 0 ? name.slice(separator + 1) : name;
+  return spriteIds[spriteId] ? `${spriteIds[spriteId]}:${imageName}` : name;
+}
+
+/**
+ * Prefix the image names an image property can evaluate to. Literal names are
+ * rewritten in the outputs of image, coalesce, case, match and step expressions.
+ * Names read from feature data (get, concat, ...) are only prefixed for styles
+ * with a single sprite, as they may name any sprite otherwise.
+ *
+ * @param value - Image property value
+ * @param spriteIds - Mapping from original sprite ID to merged sprite ID
+ * @returns Value with rewritten image names
+ */
+function rewriteImageValue(value: unknown, spriteIds: Record<string, string>): unknown {
+  if (typeof value === 'string') return rewriteImageName(value, spriteIds);
+  if (!Array.isArray(value) || typeof value[0] !== 'string') return value;
+
+  const [operator, ...args] = value;
+  const rewrite = (arg: unknown) => rewriteImageValue(arg, spriteIds);
+  const isLast = (i: number, list: unknown[]) => i === list.length - 1;
+  switch (operator) {
+    case 'image':
+    case 'coalesce':
+      return [operator, ...args.map(rewrite)];
+    case 'case':
+      // Condition and output pairs, then the fallback
+      return [
+        operator,
+        ...args.map((arg, i) => (i % 2 === 1 || isLast(i, args) ? rewrite(arg) : arg)),
+      ];
+    case 'match': {
+      // Input, label and output pairs, then the fallback
+      const [input, ...rest] = args;
+      return [
+        operator,
+        input,
+        ...rest.map((arg, i) => (i % 2 === 1 || isLast(i, rest) ? rewrite(arg) : arg)),
+      ];
+    }
+    case 'step': {
+      // Input, the first output, then stop and output pairs
+      const [input, ...rest] = args;
+      return [operator, input, ...rest.map((arg, i) => (i % 2 === 0 ? rewrite(arg) : arg))];
+    }
+    case 'get':
+    case 'concat':
+    case 'to-string':
+    case 'downcase':
+    case 'upcase':
+      return Object.keys(spriteIds).length === 1 && spriteIds.default
+        ? ['concat', `${spriteIds.default}:`, value]
+        : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Prefix image references so they resolve against the merged sprite.
+ *
+ * @param properties - Paint or layout properties
+ * @param spriteIds - Mapping from original sprite ID to merged sprite ID
+ * @returns Properties with rewritten image references
+ */
+function rewriteImageReferences(
+  properties: Record<string, unknown> | undefined,
+  spriteIds: Record<string, string>
+): Record<string, unknown> | undefined {
+  if (!properties) return properties;
+
+  const result = { ...properties };
+  IMAGE_PROPERTIES.forEach((property) => {
+    if (result[property] !== undefined) {
+      result[property] = rewriteImageValue(result[property], spriteIds);
+    }
+  });
+  return result;
+}
+
+/**
+ * Merge a basemap style into the map. Sources, layers and sprites are prefixed
+ * so they can be identified and removed later.
+ *
+ * @param map - MapLibre map instance
+ * @param style - Basemap style JSON
+ */
+export function mergeBasemapStyle(map: Map, style: StyleSpecification): void {
+  // Sprites
+  const spriteIds: Record<string, string> = {};
+  normalizeSprite(style.sprite).forEach(({ id, url }) => {
+    const mergedId = `${STYLE_BASEMAP_PREFIX}${id}`;
+    map.addSprite(mergedId, url);
+    spriteIds[id] = mergedId;
+  });
+
+  // Glyphs: a style can only have one glyphs URL, keep an existing one
+  const glyphs = map.getGlyphs();
+  if (style.glyphs && !glyphs) {
+    map.setGlyphs(style.glyphs);
+  } else if (style.glyphs && glyphs !== style.glyphs) {
+    // Labels whose fonts the existing glyph server lacks are not drawn
+    map.fire('error', {
+      error: new MapExtendError(
+        'The basemap style uses other glyphs than the map; its labels may not be drawn',
+        'GLYPHS_CONFLICT',
+        { glyphs, styleGlyphs: style.glyphs }
+      ),
+    });
+  }
+
+  // Sources
+  Object.entries(style.sources || {}).forEach(([id, source]) => {
+    map.addSource(`${STYLE_BASEMAP_PREFIX}${id}`, source as SourceSpecification);
+  });
+
+  // Layers go below the first layer that does not belong to the basemap
+  const existingLayers = map.getStyle()?.layers || [];
+  const beforeId = existingLayers.find((l) => !l.id.startsWith(STYLE_BASEMAP_PREFIX))?.id;
+
+  style.layers.forEach((layer) => {
+    const merged = {
+      ...layer,
+      id: `${STYLE_BASEMAP_PREFIX}${layer.id}`,
+      layout: rewriteImageReferences(layer.layout, spriteIds),
+      paint: rewriteImageReferences(layer.paint, spriteIds),
+    } as LayerSpecification;
+    if (merged.type === 'raster') {
+      // Apply the basemap appearance to imagery in the style
+      merged.paint = { ...merged.paint, ...getBasemapRasterPaint(map) };
+    }
+    if ('source' in layer && typeof layer.source === 'string') {
+      (merged as { source: string }).source = `${STYLE_BASEMAP_PREFIX}${layer.source}`;
+    }
+    map.addLayer(merged, beforeId);
+  });
+}
+
+/**
+ * Fetch a basemap style and merge it into the map. The request is cancelled
+ * if the basemap changes before it completes.
+ *
+ * @param map - MapLibre map instance
+ * @param url - URL of the style JSON
+ * @param onError - Called if the style cannot be loaded
+ */
+export function addStyleBasemap(
+  map: Map,
+  url: string,
+  onError: (error: MapExtendError) => void
+): void {
+  const controller = new AbortController();
+  pendingRequests.set(map, controller);
+
+  loadJson<StyleSpecification>(url, { signal: controller.signal })
+    .then((style) => {
+      if (controller.signal.aborted) return;
+      pendingRequests.delete(map);
+      mergeBasemapStyle(map, style);
+    })
+    .catch((error: unknown) => {
+      if (controller.signal.aborted) return;
+      pendingRequests.delete(map);
+      const status = error instanceof MapExtendError ? error.details?.status : undefined;
+      onError(
+        new MapExtendError(
+          `Failed to load basemap style ${url}${status ? `: HTTP ${status}` : ''}`,
+          'STYLE_LOAD_FAILED',
+          { url, status, error }
+        )
+      );
+    });
+}
+
+/**
+ * Remove all sources, layers and sprites merged from a basemap style and cancel
+ * a pending style request.
+ *
+ * @param map - MapLibre map instance
+ */
+export function removeStyleBasemap(map: Map): void {
+  pendingRequests.get(map)?.abort();
+  pendingRequests.delete(map);
+
+  const style = map.getStyle();
+  if (!style) return;
+
+  style.layers
+    .filter((l) => l.id.startsWith(STYLE_BASEMAP_PREFIX))
+    .forEach((l) => map.removeLayer(l.id));
+
+  Object.keys(style.sources || {})
+    .filter((id) => id.startsWith(STYLE_BASEMAP_PREFIX))
+    .forEach((id) => map.removeSource(id));
+
+  normalizeSprite(style.sprite)
+    .filter(({ id }) => id.startsWith(STYLE_BASEMAP_PREFIX))
+    .forEach(({ id }) => map.removeSprite(id));
+}
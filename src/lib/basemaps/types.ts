@@ -1,32 +1,219 @@
 /**
- * Basemap definition structure following xyzservices format
+ * Visual theme of a basemap
  */
-export interface BasemapDefinition {
+export type BasemapTheme = 'light' | 'dark' | 'imagery' | 'terrain';
+
+/**
+ * Tile addressing scheme of a raster basemap:
+ * - 'xyz': `{z}/{x}/{y}` with the origin at the top left (default)
+ * - 'tms': `{z}/{x}/{y}` with the origin at the bottom left (also implied by `{-y}`)
+ * - 'quadkey': Bing Maps quadkeys, `{quadkey}` or `{q}`
+ * - 'wmts': RESTful WMTS with a Web Mercator tile matrix set,
+ *   `{TileMatrix}/{TileRow}/{TileCol}`
+ */
+export type TileScheme = 'xyz' | 'tms' | 'quadkey' | 'wmts';
+
+/**
+ * Properties shared by all basemap definitions
+ */
+interface BasemapDefinitionBase {
   /** Display name for the basemap */
   name: string;
-  /** URL template for XYZ tiles */
-  url: string;
   /** Attribution text (HTML allowed) */
   attribution: string;
   /** Maximum zoom level */
   maxZoom?: number;
   /** Minimum zoom level */
   minZoom?: number;
-  /** Subdomains for load balancing (e.g., 'abc') */
-  subdomains?: string;
+  /** Geographic bounds where tiles are available [west, south, east, north] */
+  bounds?: [number, number, number, number];
+  /** URL of a preview image (default: a sample tile for raster basemaps) */
+  thumbnail?: string;
+  /**
+   * Name of the URL placeholder that takes the provider API key
+   * (e.g., 'apikey' for `{apikey}`). Basemaps with a key placeholder
+   * cannot be added without a key.
+   */
+  keyPlaceholder?: string;
+  /** Provider name (default: the part of the basemap name before the first dot) */
+  provider?: string;
+  /** Visual theme */
+  theme?: BasemapTheme;
+  /** Whether the basemap shows place labels */
+  hasLabels?: boolean;
+  /** License and terms of use notes */
+  license?: string;
+}
+
+/**
+ * Raster XYZ basemap definition structure following xyzservices format
+ */
+export interface RasterBasemapDefinition extends BasemapDefinitionBase {
+  /** Basemap kind (default: 'raster') */
+  kind?: 'raster';
+  /** URL template for tiles (placeholders depend on the scheme) */
+  url: string;
+  /** Tile scheme (default: inferred from the URL placeholders) */
+  scheme?: TileScheme;
+  /** Subdomains for load balancing (e.g., 'abc' or ['tile1', 'tile2']) */
+  subdomains?: string | string[];
   /** Tile size in pixels (default: 256) */
   tileSize?: number;
 }
 
+/**
+ * Basemap definition pointing to a MapLibre style JSON. The style's sources and
+ * layers are merged into the map below all custom layers.
+ */
+export interface StyleBasemapDefinition extends BasemapDefinitionBase {
+  /** Basemap kind */
+  kind: 'style';
+  /** URL of the MapLibre style JSON */
+  url: string;
+}
+
+/**
+ * Basemap definition, either raster XYZ tiles or a MapLibre style JSON
+ */
+export type BasemapDefinition = RasterBasemapDefinition | StyleBasemapDefinition;
+
+/**
+ * Options for adding a basemap.
+ */
+export interface AddBasemapOptions {
+  /** API key for this call (overrides keys set with setProviderKeys) */
+  apiKey?: string;
+  /**
+   * Number of consecutive tile errors after which the next candidate of a
+   * fallback list is used (default: 3)
+   */
+  errorThreshold?: number;
+}
+
+/**
+ * Payload of the 'basemapfallback' event fired when a basemap of a fallback
+ * list fails.
+ */
+export interface BasemapFallbackEvent {
+  /** Basemap that failed */
+  from: BasemapName;
+  /** Basemap that replaced it, or null if no candidate is left */
+  to: BasemapName | null;
+  /** Number of errors that triggered the fallback */
+  errors: number;
+  /** The last error */
+  error: unknown;
+}
+
+/**
+ * Structured metadata of a basemap, e.g. for picker UIs.
+ */
+export interface BasemapMetadata {
+  /** Basemap name (e.g., 'CartoDB.DarkMatter') */
+  name: BasemapName;
+  /** Display name */
+  title: string;
+  /** Provider name */
+  provider: string;
+  /** Basemap kind */
+  kind: 'raster' | 'style';
+  /** Visual theme, if known */
+  theme?: BasemapTheme;
+  /** Whether the basemap shows place labels, if known */
+  hasLabels?: boolean;
+  /** Whether an API key is required */
+  requiresKey: boolean;
+  /** Coverage bounds [west, south, east, north] (undefined for global coverage) */
+  bounds?: [number, number, number, number];
+  /** License and terms of use notes */
+  license?: string;
+}
+
+/**
+ * Query for `findBasemaps`. All given criteria must match.
+ */
+export interface BasemapQuery {
+  /** Provider name or names */
+  provider?: string | string[];
+  /** Theme or themes */
+  theme?: BasemapTheme | BasemapTheme[];
+  /** Whether the basemap shows place labels */
+  hasLabels?: boolean;
+  /** Whether an API key is required */
+  requiresKey?: boolean;
+  /** Basemap kind */
+  kind?: 'raster' | 'style';
+  /** Case-insensitive text matched against the name and display name */
+  search?: string;
+  /** Point [lng, lat] that must be covered by the basemap */
+  covers?: [number, number];
+}
+
+/**
+ * Raster appearance of the basemap. Values map to the MapLibre raster paint properties.
+ */
+export interface BasemapStyleOptions {
+  /** Opacity (0-1, default: 1), 'raster-opacity' */
+  opacity?: number;
+  /** Saturation (-1 to 1, default: 0), 'raster-saturation' */
+  saturation?: number;
+  /** Contrast (-1 to 1, default: 0), 'raster-contrast' */
+  contrast?: number;
+  /** Minimum brightness (0-1, default: 0), 'raster-brightness-min' */
+  brightnessMin?: number;
+  /** Maximum brightness (0-1, default: 1), 'raster-brightness-max' */
+  brightnessMax?: number;
+  /** Hue rotation in degrees (default: 0), 'raster-hue-rotate' */
+  hueRotate?: number;
+  /** Fade duration in milliseconds when new tiles appear (default: 300), 'raster-fade-duration' */
+  fadeDuration?: number;
+}
+
+/**
+ * Named basemap appearance presets. 'default' resets all adjustments.
+ */
+export type BasemapStylePreset = 'default' | 'grayscale' | 'dimmed' | 'muted' | 'inverted';
+
+/**
+ * Tile coordinates used to render basemap thumbnails.
+ */
+export interface TileCoordinates {
+  z: number;
+  x: number;
+  y: number;
+}
+
 /**
  * Complete basemap catalog
  */
 export type BasemapCatalog = Record<string, BasemapDefinition>;
 
 /**
- * Union type of all available basemap names
+ * Names of custom basemaps registered at runtime with `registerBasemap`.
+ *
+ * This interface is empty by default. Extend it through declaration merging to
+ * make registered names valid `BasemapName`s:
+ *
+ * @example
+ * ```ts
+ * declare module 'maplibre-gl-extend' {
+ *   interface CustomBasemapNames {
+ *     'MyTiles.Streets': true;
+ *   }
+ * }
+ * ```
+ */
+export interface CustomBasemapNames {}
+
+/**
+ * Union type of all available basemap names (built-in and registered)
+ */
+export type BasemapName = BuiltInBasemapName | Extract<keyof CustomBasemapNames, string>;
+
+/**
+ * Union type of the basemap names shipped in the built-in catalog
  */
-export type BasemapName =
+export type BuiltInBasemapName =
   // OpenStreetMap
   | 'OpenStreetMap.Mapnik'
   | 'OpenStreetMap.DE'
@@ -69,8 +256,21 @@ export type BasemapName =
   | 'Stadia.StamenTonerLite'
   | 'Stadia.StamenWatercolor'
   | 'Stadia.StamenTerrain'
+  // Thunderforest
+  | 'Thunderforest.OpenCycleMap'
+  | 'Thunderforest.Transport'
+  | 'Thunderforest.Landscape'
+  | 'Thunderforest.Outdoors'
+  // MapTiler
+  | 'MapTiler.Streets'
+  | 'MapTiler.Topo'
+  | 'MapTiler.Satellite'
   // Google
   | 'Google.Streets'
   | 'Google.Satellite'
   | 'Google.Hybrid'
-  | 'Google.Terrain';
+  | 'Google.Terrain'
+  // OpenFreeMap (vector styles)
+  | 'OpenFreeMap.Liberty'
+  | 'OpenFreeMap.Bright'
+  | 'OpenFreeMap.Positron';
@@ -0,0 +1,209 @@
+import type {
+  BasemapCatalog,
+  BasemapDefinition,
+  BasemapName,
+  RasterBasemapDefinition,
+} from './types';
+import { basemaps } from './catalog';
+import { registerBasemaps } from './registry';
+import { loadJson } from '../utils/loader';
+import type { LoadOptions } from '../utils/loader';
+
+/**
+ * A single tile provider in the xyzservices `providers.json` format.
+ */
+export interface XyzServicesProvider {
+  /** URL template, may contain placeholders such as {variant} or {ext} */
+  url: string;
+  /** Provider name (e.g., 'CartoDB.Positron') */
+  name?: string;
+  /** Plain text attribution */
+  attribution?: string;
+  /** HTML attribution */
+  html_attribution?: string;
+  /** Minimum zoom level */
+  min_zoom?: number;
+  /** Maximum zoom level */
+  max_zoom?: number;
+  /** Subdomains for load balancing */
+  subdomains?: string | string[];
+  /** Bounds as [[south, west], [north, east]] */
+  bounds?: [[number, number], [number, number]];
+  /** Tile size in pixels */
+  tileSize?: number;
+  /** Provider status (e.g., 'broken') */
+  status?: string;
+  /** Values for URL placeholders (variant, ext, apikey, accessToken, ...) */
+  [key: string]: unknown;
+}
+
+/**
+ * The xyzservices `providers.json` format: providers, possibly nested in groups.
+ */
+export interface XyzServicesProviders {
+  [name: string]: XyzServicesProvider | XyzServicesProviders;
+}
+
+/**
+ * Placeholders resolved by MapLibre or by this library when tiles are requested.
+ */
+const RESERVED_PLACEHOLDERS = new Set(['z', 'x', 'y', 's', 'r']);
+
+/**
+ * Matches placeholder values that stand for a user-provided key,
+ * e.g. '<insert your api key here>'.
+ */
+const KEY_VALUE_PATTERN = /^<insert your .* here>$/i;
+
+/**
+ * Metadata that xyzservices does not provide, kept from the built-in catalog.
+ */
+const BUILT_IN_METADATA_KEYS = ['provider', 'theme', 'hasLabels', 'license', 'thumbnail'] as const;
+
+/**
+ * Check whether a catalog entry is a leaf provider rather than a group.
+ *
+ * @param entry - Catalog entry
+ * @returns True if the entry is a provider
+ */
+function isProvider(
+  entry: XyzServicesProvider | XyzServicesProviders
+): entry is XyzServicesProvider {
+  return typeof entry.url === 'string';
+}
+
+/**
+ * Convert an xyzservices provider to a basemap definition.
+ *
+ * @param name - Basemap name
+ * @param provider - xyzservices provider
+ * @returns Basemap definition
+ */
+function toBasemapDefinition(
+  name: string,
+  provider: XyzServicesProvider
+): RasterBasemapDefinition {
+  let keyPlaceholder: string | undefined;
+
+  // Substitute {variant}, {ext}, ... with the provider's own values
+  const url = provider.url.replace(/\{([^}]+)\}/g, (match, placeholder: string) => {
+    if (RESERVED_PLACEHOLDERS.has(placeholder)) return match;
+
+    const value = provider[placeholder];
+    if (typeof value === 'string' && KEY_VALUE_PATTERN.test(value)) {
+      keyPlaceholder = keyPlaceholder ?? placeholder;
+      return match;
+    }
+    if (typeof value === 'string' || typeof value === 'number') {
+      return String(value);
+    }
+    return match;
+  });
+
+  const definition: RasterBasemapDefinition = {
+    name,
+    url,
+    attribution: provider.html_attribution || provider.attribution || '',
+    maxZoom: provider.max_zoom,
+    minZoom: provider.min_zoom,
+    // Leaflet (and xyzservices) default to 'abc' when {s} has no explicit subdomains
+    subdomains: provider.subdomains ?? (url.includes('{s}') ? 'abc' : undefined),
+    tileSize: provider.tileSize,
+    keyPlaceholder,
+  };
+
+  if (provider.bounds) {
+    const [[south, west], [north, east]] = provider.bounds;
+    definition.bounds = [west, south, east, north];
+  }
+
+  return definition;
+}
+
+/**
+ * Flatten an xyzservices catalog into basemap definitions.
+ *
+ * @param providers - xyzservices catalog
+ * @param prefix - Name prefix of the current group
+ * @returns Basemap catalog
+ */
+export function parseXyzServicesCatalog(
+  providers: XyzServicesProviders,
+  prefix: string = ''
+): BasemapCatalog {
+  const catalog: BasemapCatalog = {};
+
+  Object.entries(providers).forEach(([key, entry]) => {
+    if (!entry || typeof entry !== 'object') return;
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isProvider(entry)) {
+      if (entry.status === 'broken') return;
+      const name = typeof entry.name === 'string' ? entry.name : path;
+      catalog[name] = toBasemapDefinition(name, entry);
+    } else {
+      Object.assign(catalog, parseXyzServicesCatalog(entry, path));
+    }
+  });
+
+  return catalog;
+}
+
+/**
+ * Copy the metadata of built-in basemaps with the same names into catalog entries,
+ * so that loading a catalog does not lose the theme, label and license information.
+ *
+ * @param catalog - Parsed catalog
+ * @returns Catalog with the built-in metadata
+ */
+function withBuiltInMetadata(catalog: BasemapCatalog): BasemapCatalog {
+  const merged: BasemapCatalog = {};
+
+  Object.entries(catalog).forEach(([name, definition]) => {
+    const builtIn = Object.prototype.hasOwnProperty.call(basemaps, name)
+      ? basemaps[name]
+      : undefined;
+    const metadata: Partial<RasterBasemapDefinition> = {};
+    BUILT_IN_METADATA_KEYS.forEach((key) => {
+      if (builtIn?.[key] !== undefined && definition[key] === undefined) {
+        Object.assign(metadata, { [key]: builtIn[key] });
+      }
+    });
+    merged[name] = { ...definition, ...metadata } as BasemapDefinition;
+  });
+
+  return merged;
+}
+
+/**
+ * Load an xyzservices `providers.json` catalog and register every provider as a
+ * basemap, using the same names as xyzservices and leafmap (e.g., 'Esri.WorldImagery').
+ * Providers that need a key (apikey, accessToken, ...) use the provider keys set
+ * with `setProviderKeys`. Providers that are also built in keep the built-in theme,
+ * label and license metadata, so `findBasemaps` still finds them.
+ *
+ * @param source - Parsed providers.json or URL to fetch it from
+ * @param options - Options for loading the catalog from a URL
+ * @returns Names of the registered basemaps
+ * @throws MapExtendError if the catalog cannot be loaded (e.g., FETCH_FAILED, HTTP_404)
+ *
+ * @example
+ * ```ts
+ * await loadXyzServicesCatalog(
+ *   'https://raw.githubusercontent.com/geopandas/xyzservices/main/xyzservices/data/providers.json'
+ * );
+ * map.setBasemap('Esri.WorldImagery');
+ * ```
+ */
+export async function loadXyzServicesCatalog(
+  source: XyzServicesProviders | string,
+  options: LoadOptions = {}
+): Promise<BasemapName[]> {
+  const providers =
+    typeof source === 'string' ? await loadJson<XyzServicesProviders>(source, options) : source;
+
+  const catalog = withBuiltInMetadata(parseXyzServicesCatalog(providers));
+  registerBasemaps(catalog);
+
+  return Object.keys(catalog) as BasemapName[];
+}
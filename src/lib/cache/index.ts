@@ -0,0 +1,85 @@
+import { addProtocol } from 'maplibre-gl';
+import type { TileCacheOptions } from './types';
+import { configureTileCache, fetchTile } from './store';
+import { MapExtendError } from '../utils/validation';
+
+export { getCacheStats, clearTileCache } from './store';
+export { prefetchBasemapArea, getTileRange } from './prefetch';
+export type {
+  TileCacheOptions,
+  TileCacheStats,
+  PrefetchProgress,
+  PrefetchBasemapOptions,
+} from './types';
+
+/**
+ * Custom protocol that routes tile requests through the cache.
+ */
+export const TILE_CACHE_PROTOCOL = 'mgl-extend-cache';
+
+let enabled = false;
+let protocolRegistered = false;
+
+/**
+ * Enable the tile cache for basemaps and raster layers. Tiles are stored with the
+ * Cache API and served through a MapLibre custom protocol. Only sources added after
+ * enabling the cache use it. Calling it again updates the options.
+ *
+ * @param options - Tile cache options
+ * @throws MapExtendError if the Cache API is not available
+ *
+ * @example
+ * ```ts
+ * enableTileCache({ maxTiles: 20000, maxAge: 7 * 24 * 3600 * 1000 });
+ * map.setBasemap('OpenStreetMap.Mapnik');
+ *
+ * // Later, without connectivity
+ * enableTileCache({ offline: true });
+ * ```
+ */
+export function enableTileCache(options: TileCacheOptions = {}): void {
+  if (typeof caches === 'undefined') {
+    throw new MapExtendError(
+      'The Cache API is not available in this environment (it requires a secure context)',
+      'CACHE_UNAVAILABLE'
+    );
+  }
+
+  configureTileCache(options);
+
+  if (!protocolRegistered) {
+    addProtocol(TILE_CACHE_PROTOCOL, async (params, abortController) => ({
+      data: await fetchTile(params.url.slice(TILE_CACHE_PROTOCOL.length + 3), abortController.signal),
+    }));
+    protocolRegistered = true;
+  }
+  enabled = true;
+}
+
+/**
+ * Disable the tile cache for sources added from now on. Cached tiles are kept,
+ * use `clearTileCache` to delete them.
+ */
+export function disableTileCache(): void {
+  enabled = false;
+}
+
+/**
+ * Check whether the tile cache is enabled.
+ *
+ * @returns True if enabled
+ */
+export function isTileCacheEnabled(): boolean {
+  return enabled;
+}
+
+/**
+ * Route tile URLs through the cache protocol if the cache is enabled.
+ *
+ * @param urls - Tile URL templates
+ * @returns Tile URL templates to use in a source
+ */
+export function withTileCache(urls: string[]): string[] {
+  if (!enabled) return urls;
+  return urls.map((url) => (/^https?:\/\//.test(url) ? `${TILE_CACHE_PROTOCOL}://${url}` : url));
+}
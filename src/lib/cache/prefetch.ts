@@ -0,0 +1,170 @@
+import type { Map } from 'maplibre-gl';
+import type { PrefetchBasemapOptions, PrefetchProgress } from './types';
+import { fetchTile, getTileCacheOptions, hasCachedTile } from './store';
+import { isTileCacheEnabled } from './index';
+import { getBasemap, getBasemapDefinition } from '../basemaps';
+import { applyApiKey } from '../basemaps/keys';
+import { buildTileUrls, getTileScheme, getTileUrl } from '../basemaps/raster';
+import type { TileScheme } from '../basemaps/types';
+import { MapExtendError } from '../utils/validation';
+
+// Web Mercator latitude limit
+const MAX_LATITUDE = 85.0511287798;
+
+/**
+ * Range of tile columns and rows covering a bounding box at a zoom level.
+ */
+interface TileRange {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/**
+ * Get the tiles covering a bounding box at a zoom level.
+ *
+ * @param bbox - Bounding box [west, south, east, north]
+ * @param zoom - Zoom level
+ * @returns Tile range
+ */
+export function getTileRange(bbox: [number, number, number, number], zoom: number): TileRange {
+  const [west, south, east, north] = bbox;
+  const n = 2 ** zoom;
+
+  const toX = (lng: number) =>
+    Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+  const toY = (lat: number) => {
+    const rad = (Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180;
+    const y = ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n;
+    return Math.min(n - 1, Math.max(0, Math.floor(y)));
+  };
+
+  return { minX: toX(west), maxX: toX(east), minY: toY(north), maxY: toY(south) };
+}
+
+/**
+ * Generate the tile URLs for a bounding box. Subdomains are picked the same way
+ * MapLibre picks them so prefetched tiles are found in the cache.
+ *
+ * @param urls - Tile URL templates
+ * @param scheme - Tile scheme
+ * @param bbox - Bounding box [west, south, east, north]
+ * @param minZoom - Minimum zoom level
+ * @param maxZoom - Maximum zoom level
+ */
+function* generateTileUrls(
+  urls: string[],
+  scheme: TileScheme,
+  bbox: [number, number, number, number],
+  minZoom: number,
+  maxZoom: number
+): Generator<string> {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bbox, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        yield getTileUrl(urls[(x + y) % urls.length], { z, x, y }, scheme);
+      }
+    }
+  }
+}
+
+/**
+ * Download the tiles of a raster basemap for an area into the tile cache, so
+ * the area can be viewed offline later. Tiles that are already cached are skipped.
+ *
+ * @param map - MapLibre map instance
+ * @param bbox - Bounding box [west, south, east, north]
+ * @param minZoom - Minimum zoom level
+ * @param maxZoom - Maximum zoom level
+ * @param options - Prefetch options
+ * @returns Final progress
+ * @throws MapExtendError if the cache is disabled, the basemap cannot be prefetched,
+ * the area exceeds the cache quota, or the prefetch is aborted
+ *
+ * @example
+ * ```ts
+ * enableTileCache();
+ * map.setBasemap('OpenStreetMap.Mapnik');
+ * await map.prefetchBasemapArea([-122.52, 37.7, -122.35, 37.82], 10, 16, {
+ *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+ * });
+ * ```
+ */
+export async function prefetchBasemapArea(
+  map: Map,
+  bbox: [number, number, number, number],
+  minZoom: number,
+  maxZoom: number,
+  options: PrefetchBasemapOptions = {}
+): Promise<PrefetchProgress> {
+  if (!isTileCacheEnabled()) {
+    throw new MapExtendError(
+      'The tile cache is disabled, call enableTileCache() first',
+      'CACHE_DISABLED'
+    );
+  }
+
+  const name = options.name ?? getBasemap(map);
+  if (!name) {
+    throw new MapExtendError('No basemap to prefetch', 'NO_BASEMAP');
+  }
+  const definition = getBasemapDefinition(name);
+  if (!definition) {
+    throw new MapExtendError(`Unknown basemap: ${name}`, 'UNKNOWN_BASEMAP', { name });
+  }
+  if (definition.kind === 'style') {
+    throw new MapExtendError(
+      `Basemap ${name} is a style basemap, only raster basemaps can be prefetched`,
+      'UNSUPPORTED_BASEMAP',
+      { name }
+    );
+  }
+
+  const url = applyApiKey(definition.url, name, definition, options.apiKey);
+  const urls = buildTileUrls(definition, url);
+  const fromZoom = Math.max(minZoom, definition.minZoom ?? 0);
+  const toZoom = Math.min(maxZoom, definition.maxZoom ?? 22);
+
+  let total = 0;
+  for (let z = fromZoom; z <= toZoom; z++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bbox, z);
+    total += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+
+  const { maxTiles } = getTileCacheOptions();
+  if (total > maxTiles) {
+    throw new MapExtendError(
+      `Area contains ${total} tiles, more than the cache quota of ${maxTiles}`,
+      'TOO_MANY_TILES',
+      { total, maxTiles }
+    );
+  }
+
+  const progress: PrefetchProgress = { total, completed: 0, failed: 0 };
+  const tiles = generateTileUrls(urls, getTileScheme(definition), bbox, fromZoom, toZoom);
+
+  // Workers share the generator, so each tile is downloaded once
+  const worker = async () => {
+    for (const tileUrl of tiles) {
+      if (options.signal?.aborted) return;
+      try {
+        if (!(await hasCachedTile(tileUrl))) {
+          await fetchTile(tileUrl, options.signal);
+        }
+      } catch {
+        progress.failed++;
+      }
+      progress.completed++;
+      options.onProgress?.({ ...progress });
+    }
+  };
+  await Promise.all(Array.from({ length: options.concurrency ?? 6 }, worker));
+
+  if (options.signal?.aborted) {
+    throw new MapExtendError('Prefetch was aborted', 'PREFETCH_ABORTED', { ...progress });
+  }
+
+  return progress;
+}
@@ -0,0 +1,232 @@
+import type { TileCacheOptions, TileCacheStats } from './types';
+import { MapExtendError } from '../utils/validation';
+
+const CACHED_AT_HEADER = 'x-mgl-extend-cached-at';
+const SIZE_HEADER = 'x-mgl-extend-size';
+
+interface CacheEntry {
+  size: number;
+  cachedAt: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<TileCacheOptions, 'maxAge'>> & Pick<TileCacheOptions, 'maxAge'> =
+  {
+    cacheName: 'maplibre-gl-extend-tiles',
+    maxTiles: 10000,
+    maxBytes: 200 * 1024 * 1024,
+    maxAge: undefined,
+    offline: false,
+  };
+
+let options = { ...DEFAULT_OPTIONS };
+
+// Cached tiles in least recently used order, loaded lazily from the cache
+let indexPromise: Promise<globalThis.Map<string, CacheEntry>> | null = null;
+let totalBytes = 0;
+let hits = 0;
+let misses = 0;
+
+/**
+ * Update the tile cache options. Options that are not given keep their value.
+ *
+ * @param next - Tile cache options
+ */
+export function configureTileCache(next: TileCacheOptions): void {
+  if (next.cacheName && next.cacheName !== options.cacheName) {
+    indexPromise = null;
+    totalBytes = 0;
+  }
+  options = { ...options, ...next };
+}
+
+/**
+ * Get the current tile cache options.
+ *
+ * @returns Tile cache options
+ */
+export function getTileCacheOptions(): typeof options {
+  return options;
+}
+
+/**
+ * Open the tile cache.
+ *
+ * @returns Tile cache
+ * @throws MapExtendError if the Cache API is not available
+ */
+function openCache(): Promise<Cache> {
+  if (typeof caches === 'undefined') {
+    throw new MapExtendError(
+      'The Cache API is not available in this environment (it requires a secure context)',
+      'CACHE_UNAVAILABLE'
+    );
+  }
+  return caches.open(options.cacheName);
+}
+
+/**
+ * Load the index of cached tiles from the cache.
+ *
+ * @param cache - Tile cache
+ * @returns Cached tiles in least recently used order
+ */
+function getIndex(cache: Cache): Promise<globalThis.Map<string, CacheEntry>> {
+  if (!indexPromise) {
+    indexPromise = (async () => {
+      const entries: [string, CacheEntry][] = [];
+      totalBytes = 0;
+      for (const request of await cache.keys()) {
+        const response = await cache.match(request);
+        if (!response) continue;
+        const entry = {
+          size: Number(response.headers.get(SIZE_HEADER)) || 0,
+          cachedAt: Number(response.headers.get(CACHED_AT_HEADER)) || 0,
+        };
+        totalBytes += entry.size;
+        entries.push([request.url, entry]);
+      }
+      entries.sort((a, b) => a[1].cachedAt - b[1].cachedAt);
+      return new globalThis.Map(entries);
+    })();
+  }
+  return indexPromise;
+}
+
+/**
+ * Remove least recently used tiles until the cache is within its quota.
+ *
+ * @param cache - Tile cache
+ * @param index - Cached tiles
+ */
+async function evict(cache: Cache, index: globalThis.Map<string, CacheEntry>): Promise<void> {
+  for (const [url, entry] of index) {
+    if (index.size <= options.maxTiles && totalBytes <= options.maxBytes) break;
+    index.delete(url);
+    totalBytes -= entry.size;
+    await cache.delete(url);
+  }
+}
+
+/**
+ * Check whether a cached tile is older than the configured maximum age.
+ *
+ * @param entry - Cached tile
+ * @returns True if the tile should be refreshed
+ */
+function isExpired(entry: CacheEntry | undefined): boolean {
+  return !!entry && options.maxAge !== undefined && Date.now() - entry.cachedAt > options.maxAge;
+}
+
+/**
+ * Check whether a tile is cached and not expired.
+ *
+ * @param url - Tile URL
+ * @returns True if the tile is cached
+ */
+export async function hasCachedTile(url: string): Promise<boolean> {
+  const cache = await openCache();
+  const index = await getIndex(cache);
+  return index.has(url) && !isExpired(index.get(url));
+}
+
+/**
+ * Get a tile from the cache or the network. Fetched tiles are stored in the cache,
+ * and expired tiles are still served if the network is unavailable.
+ *
+ * @param url - Tile URL
+ * @param signal - Signal to cancel the request
+ * @returns Tile data
+ * @throws MapExtendError if the tile is neither cached nor available from the network
+ */
+export async function fetchTile(url: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const cache = await openCache();
+  const index = await getIndex(cache);
+
+  const cached = await cache.match(url);
+  const entry = index.get(url);
+  if (cached && entry) {
+    // Mark the tile as recently used
+    index.delete(url);
+    index.set(url, entry);
+    if (options.offline || !isExpired(entry)) {
+      hits++;
+      return cached.arrayBuffer();
+    }
+  }
+
+  if (options.offline) {
+    throw new MapExtendError(`Tile is not available offline: ${url}`, 'TILE_NOT_CACHED', { url });
+  }
+
+  let response: Response | undefined;
+  let error: unknown;
+  try {
+    response = await fetch(url, { signal });
+  } catch (e) {
+    error = e;
+  }
+
+  if (!response || !response.ok) {
+    if (cached && entry && !signal?.aborted) {
+      hits++;
+      return cached.arrayBuffer();
+    }
+    throw new MapExtendError(
+      response ? `Failed to fetch tile ${url}: HTTP ${response.status}` : `Failed to fetch tile ${url}`,
+      'FETCH_FAILED',
+      { url, status: response?.status, error }
+    );
+  }
+
+  misses++;
+  const data = await response.arrayBuffer();
+  const cachedAt = Date.now();
+  await cache.put(
+    url,
+    new Response(data, {
+      headers: {
+        'content-type': response.headers.get('content-type') || 'application/octet-stream',
+        [CACHED_AT_HEADER]: String(cachedAt),
+        [SIZE_HEADER]: String(data.byteLength),
+      },
+    })
+  );
+
+  if (entry) totalBytes -= entry.size;
+  index.delete(url);
+  index.set(url, { size: data.byteLength, cachedAt });
+  totalBytes += data.byteLength;
+  await evict(cache, index);
+
+  return data;
+}
+
+/**
+ * Get tile cache usage statistics.
+ *
+ * @returns Tile cache statistics
+ */
+export async function getCacheStats(): Promise<TileCacheStats> {
+  const index = await getIndex(await openCache());
+  return {
+    tiles: index.size,
+    bytes: totalBytes,
+    maxTiles: options.maxTiles,
+    maxBytes: options.maxBytes,
+    hits,
+    misses,
+  };
+}
+
+/**
+ * Delete all cached tiles and reset the statistics.
+ */
+export async function clearTileCache(): Promise<void> {
+  if (typeof caches !== 'undefined') {
+    await caches.delete(options.cacheName);
+  }
+  indexPromise = null;
+  totalBytes = 0;
+  hits = 0;
+  misses = 0;
+}
@@ -0,0 +1,63 @@
+import type { BasemapName } from '../basemaps/types';
+
+/**
+ * Options for the tile cache.
+ */
+export interface TileCacheOptions {
+  /** Name of the Cache API storage (default: 'maplibre-gl-extend-tiles') */
+  cacheName?: string;
+  /** Maximum number of cached tiles (default: 10000) */
+  maxTiles?: number;
+  /** Maximum total size of cached tiles in bytes (default: 200 MB) */
+  maxBytes?: number;
+  /** Age in milliseconds after which cached tiles are refreshed when online (default: never) */
+  maxAge?: number;
+  /** Serve tiles from the cache only, without network requests (default: false) */
+  offline?: boolean;
+}
+
+/**
+ * Tile cache usage statistics.
+ */
+export interface TileCacheStats {
+  /** Number of cached tiles */
+  tiles: number;
+  /** Total size of cached tiles in bytes */
+  bytes: number;
+  /** Maximum number of cached tiles */
+  maxTiles: number;
+  /** Maximum total size in bytes */
+  maxBytes: number;
+  /** Tiles served from the cache since it was enabled or cleared */
+  hits: number;
+  /** Tiles fetched from the network since it was enabled or cleared */
+  misses: number;
+}
+
+/**
+ * Progress of a prefetch.
+ */
+export interface PrefetchProgress {
+  /** Total number of tiles in the area */
+  total: number;
+  /** Tiles processed so far, including failed ones */
+  completed: number;
+  /** Tiles that could not be downloaded */
+  failed: number;
+}
+
+/**
+ * Options for prefetching basemap tiles.
+ */
+export interface PrefetchBasemapOptions {
+  /** Basemap to prefetch (default: the current basemap of the map) */
+  name?: BasemapName;
+  /** API key for keyed providers */
+  apiKey?: string;
+  /** Number of parallel requests (default: 6) */
+  concurrency?: number;
+  /** Signal to cancel the prefetch */
+  signal?: AbortSignal;
+  /** Called after each tile */
+  onProgress?: (progress: PrefetchProgress) => void;
+}
@@ -0,0 +1,290 @@
+import type { Map, IControl, ControlPosition } from 'maplibre-gl';
+import type { BasemapName, TileCoordinates } from '../basemaps/types';
+import {
+  getBasemap,
+  getBasemapDefinition,
+  getBasemapMetadata,
+  getBasemapNames,
+  getBasemapThumbnailUrl,
+  getProviderName,
+  setBasemap,
+  subscribeBasemapRegistry,
+} from '../basemaps';
+
+/**
+ * Options for the basemap gallery control.
+ */
+export interface BasemapControlOptions {
+  /** Basemaps to show (default: all available basemaps, including registered ones) */
+  basemaps?: BasemapName[];
+  /** Whether the gallery starts collapsed (default: true) */
+  collapsed?: boolean;
+  /** Whether to show a search box (default: true) */
+  search?: boolean;
+  /** Whether to group basemaps by their metadata provider (default: true) */
+  groupByProvider?: boolean;
+  /** Tile used to render thumbnails (default: { z: 3, x: 4, y: 2 }) */
+  thumbnailTile?: TileCoordinates;
+  /** Title of the toggle button (default: 'Basemaps') */
+  title?: string;
+}
+
+const CLASS_PREFIX = 'mgl-extend-basemap-control';
+
+/**
+ * Basemap gallery control with thumbnails, grouping by provider and search.
+ * Selecting a thumbnail calls `setBasemap`; the active basemap follows `getBasemap()`.
+ * Styles are provided by the exported `style.css`.
+ *
+ * @example
+ * ```ts
+ * import { BasemapControl } from 'maplibre-gl-extend';
+ * import 'maplibre-gl-extend/style.css';
+ *
+ * map.addControl(new BasemapControl({ collapsed: true }), 'top-right');
+ * ```
+ */
+export class BasemapControl implements IControl {
+  private _map: Map | null = null;
+  private _container: HTMLElement | null = null;
+  private _panel: HTMLElement | null = null;
+  private _list: HTMLElement | null = null;
+  private _searchInput: HTMLInputElement | null = null;
+  private _options: Required<Omit<BasemapControlOptions, 'basemaps'>> &
+    Pick<BasemapControlOptions, 'basemaps'>;
+  private _unsubscribe: (() => void) | null = null;
+
+  constructor(options: BasemapControlOptions = {}) {
+    this._options = {
+      basemaps: options.basemaps,
+      collapsed: options.collapsed ?? true,
+      search: options.search ?? true,
+      groupByProvider: options.groupByProvider ?? true,
+      thumbnailTile: options.thumbnailTile ?? { z: 3, x: 4, y: 2 },
+      title: options.title ?? 'Basemaps',
+    };
+    this._onStyleData = this._onStyleData.bind(this);
+  }
+
+  /**
+   * Called when the control is added to the map.
+   *
+   * @param map - MapLibre map instance
+   * @returns The control container
+   */
+  onAdd(map: Map): HTMLElement {
+    this._map = map;
+
+    const container = document.createElement('div');
+    container.className = `maplibregl-ctrl maplibregl-ctrl-group ${CLASS_PREFIX}`;
+
+    const toggle = document.createElement('button');
+    toggle.type = 'button';
+    toggle.className = `${CLASS_PREFIX}-toggle`;
+    toggle.title = this._options.title;
+    toggle.setAttribute('aria-label', this._options.title);
+    toggle.textContent = this._options.title;
+    toggle.addEventListener('click', () => this.setCollapsed(!this.isCollapsed()));
+    container.appendChild(toggle);
+
+    const panel = document.createElement('div');
+    panel.className = `${CLASS_PREFIX}-panel`;
+    container.appendChild(panel);
+
+    if (this._options.search) {
+      const input = document.createElement('input');
+      input.type = 'search';
+      input.className = `${CLASS_PREFIX}-search`;
+      input.placeholder = 'Search basemaps';
+      input.addEventListener('input', () => this._render());
+      panel.appendChild(input);
+      this._searchInput = input;
+    }
+
+    const list = document.createElement('div');
+    list.className = `${CLASS_PREFIX}-list`;
+    panel.appendChild(list);
+
+    this._container = container;
+    this._panel = panel;
+    this._list = list;
+
+    this.setCollapsed(this._options.collapsed);
+    this._render();
+
+    map.on('styledata', this._onStyleData);
+    if (!this._options.basemaps) {
+      this._unsubscribe = subscribeBasemapRegistry(() => this._render());
+    }
+
+    return container;
+  }
+
+  /**
+   * Called when the control is removed from the map.
+   */
+  onRemove(): void {
+    this._map?.off('styledata', this._onStyleData);
+    this._unsubscribe?.();
+    this._unsubscribe = null;
+    this._container?.parentNode?.removeChild(this._container);
+    this._container = null;
+    this._panel = null;
+    this._list = null;
+    this._searchInput = null;
+    this._map = null;
+  }
+
+  /**
+   * Get the default position of the control.
+   *
+   * @returns Control position
+   */
+  getDefaultPosition(): ControlPosition {
+    return 'top-right';
+  }
+
+  /**
+   * Check whether the gallery is collapsed.
+   *
+   * @returns True if collapsed
+   */
+  isCollapsed(): boolean {
+    return !!this._panel?.hidden;
+  }
+
+  /**
+   * Expand or collapse the gallery.
+   *
+   * @param collapsed - Whether the gallery should be collapsed
+   */
+  setCollapsed(collapsed: boolean): void {
+    if (!this._panel || !this._container) return;
+    this._panel.hidden = collapsed;
+    this._container.classList.toggle(`${CLASS_PREFIX}-expanded`, !collapsed);
+  }
+
+  /**
+   * Update the active thumbnail when the style changes.
+   */
+  private _onStyleData(): void {
+    if (!this._map || !this._list) return;
+
+    const current = getBasemap(this._map);
+    this._list.querySelectorAll<HTMLElement>(`.${CLASS_PREFIX}-item`).forEach((item) => {
+      item.classList.toggle(`${CLASS_PREFIX}-active`, item.dataset.basemap === current);
+    });
+  }
+
+  /**
+   * Select a basemap.
+   *
+   * @param name - Basemap name
+   */
+  private _select(name: BasemapName): void {
+    if (!this._map) return;
+
+    try {
+      setBasemap(this._map, name);
+    } catch (error) {
+      this._map.fire('error', { error });
+    }
+    this._onStyleData();
+  }
+
+  /**
+   * Get the basemap names matching the search box.
+   *
+   * @returns Filtered basemap names
+   */
+  private _getFilteredNames(): BasemapName[] {
+    const names = this._options.basemaps ?? getBasemapNames();
+    const query = this._searchInput?.value.trim().toLowerCase() ?? '';
+    if (!query) return names;
+
+    return names.filter((name) => {
+      const label = getBasemapDefinition(name)?.name ?? '';
+      return name.toLowerCase().includes(query) || label.toLowerCase().includes(query);
+    });
+  }
+
+  /**
+   * Render the thumbnail grid.
+   */
+  private _render(): void {
+    if (!this._list) return;
+    this._list.innerHTML = '';
+
+    const groups: Record<string, BasemapName[]> = {};
+    this._getFilteredNames().forEach((name) => {
+      const group = this._options.groupByProvider
+        ? getBasemapMetadata(name)?.provider ?? getProviderName(name)
+        : '';
+      (groups[group] = groups[group] || []).push(name);
+    });
+
+    Object.entries(groups).forEach(([group, names]) => {
+      if (group) {
+        const heading = document.createElement('div');
+        heading.className = `${CLASS_PREFIX}-group`;
+        heading.textContent = group;
+        this._list!.appendChild(heading);
+      }
+
+      const grid = document.createElement('div');
+      grid.className = `${CLASS_PREFIX}-grid`;
+      names.forEach((name) => grid.appendChild(this._createItem(name)));
+      this._list!.appendChild(grid);
+    });
+
+    if (Object.keys(groups).length === 0) {
+      const empty = document.createElement('div');
+      empty.className = `${CLASS_PREFIX}-empty`;
+      empty.textContent = 'No basemaps found';
+      this._list.appendChild(empty);
+    }
+
+    this._onStyleData();
+  }
+
+  /**
+   * Create a thumbnail button for a basemap.
+   *
+   * @param name - Basemap name
+   * @returns Thumbnail element
+   */
+  private _createItem(name: BasemapName): HTMLElement {
+    const definition = getBasemapDefinition(name);
+    const label = definition?.name ?? name;
+
+    const item = document.createElement('button');
+    item.type = 'button';
+    item.className = `${CLASS_PREFIX}-item`;
+    item.dataset.basemap = name;
+    item.title = name;
+
+    const thumbnailUrl = getBasemapThumbnailUrl(name, this._options.thumbnailTile);
+    if (thumbnailUrl) {
+      const img = document.createElement('img');
+      img.className = `${CLASS_PREFIX}-thumbnail`;
+      img.src = thumbnailUrl;
+      img.alt = label;
+      img.loading = 'lazy';
+      item.appendChild(img);
+    } else {
+      const placeholder = document.createElement('div');
+      placeholder.className = `${CLASS_PREFIX}-thumbnail ${CLASS_PREFIX}-placeholder`;
+      placeholder.textContent = label.charAt(0);
+      item.appendChild(placeholder);
+    }
+
+    const caption = document.createElement('span');
+    caption.className = `${CLASS_PREFIX}-label`;
+    caption.textContent = label;
+    item.appendChild(caption);
+
+    item.addEventListener('click', () => this._select(name));
+
+    return item;
+  }
+}
@@ -0,0 +1,2 @@
+export { BasemapControl } from './BasemapControl';
+export type { BasemapControlOptions } from './BasemapControl';
@@ -1,7 +1,11 @@
 import { useState, useCallback, useEffect } from 'react';
 import type { Map } from 'maplibre-gl';
-import type { BasemapName } from '../basemaps/types';
-import { basemaps, getBasemapNames } from '../basemaps';
+import type { BasemapName, BasemapCatalog } from '../basemaps/types';
+import {
+  getBasemapCatalog,
+  getBasemapNames,
+  subscribeBasemapRegistry,
+} from '../basemaps';
 
 /**
  * Return type for the useBasemap hook.
@@ -11,10 +15,10 @@ interface UseBasemapReturn {
   currentBasemap: BasemapName | null;
   /** Set the basemap */
   setBasemap: (name: BasemapName) => void;
-  /** List of available basemap names */
+  /** List of available basemap names, including registered basemaps */
   availableBasemaps: BasemapName[];
-  /** Full basemap catalog */
-  basemapCatalog: typeof basemaps;
+  /** Full basemap catalog, including registered basemaps */
+  basemapCatalog: BasemapCatalog;
 }
 
 /**
@@ -50,7 +54,16 @@ export function useBasemap(
   const [currentBasemap, setCurrentBasemap] = useState<BasemapName | null>(
     initialBasemap || null
   );
-  const [availableBasemaps] = useState<BasemapName[]>(getBasemapNames());
+  const [availableBasemaps, setAvailableBasemaps] = useState<BasemapName[]>(getBasemapNames);
+  const [basemapCatalog, setBasemapCatalog] = useState<BasemapCatalog>(getBasemapCatalog);
+
+  // Keep the list in sync with runtime basemap registrations
+  useEffect(() => {
+    return subscribeBasemapRegistry(() => {
+      setAvailableBasemaps(getBasemapNames());
+      setBasemapCatalog(getBasemapCatalog());
+    });
+  }, []);
 
   // Set initial basemap when map is ready
   useEffect(() => {
@@ -90,6 +103,6 @@ export function useBasemap(
     currentBasemap,
     setBasemap,
     availableBasemaps,
-    basemapCatalog: basemaps,
+    basemapCatalog,
   };
 }
@@ -0,0 +1,105 @@
+import type { ErrorEvent, Map, MapSourceDataEvent, VectorTileSource } from 'maplibre-gl';
+import { getLayerInfoById, updateLayerBounds } from './registry';
+import { loadJson } from '../utils/loader';
+
+// Store for tracking pending source bounds listeners per map instance and layer
+const boundsWatchersMap = new WeakMap<Map, Record<string, () => void>>();
+
+/**
+ * Check whether a value is a [west, south, east, north] extent.
+ *
+ * @param value - Value to check
+ * @returns True for four finite numbers
+ */
+function isBounds(value: unknown): value is [number, number, number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 4 &&
+    value.every((n) => typeof n === 'number' && Number.isFinite(n))
+  );
+}
+
+/**
+ * Store the bounds of a vector tile source once its TileJSON or PMTiles header
+ * is loaded. The listeners are removed once the bounds arrive, when the source
+ * fails to load, or with unwatchSourceBounds when the layer is removed.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param sourceId - Vector tile source ID
+ * @param onBounds - Called with the bounds once stored
+ */
+export function watchSourceBounds(
+  map: Map,
+  layerId: string,
+  sourceId: string,
+  onBounds?: (bounds: [number, number, number, number]) => void
+): void {
+  unwatchSourceBounds(map, layerId);
+
+  const onSourceData = (e: MapSourceDataEvent) => {
+    if (e.sourceId !== sourceId || e.sourceDataType !== 'metadata') return;
+    unwatchSourceBounds(map, layerId);
+
+    const bounds = map.getSource<VectorTileSource>(sourceId)?.bounds;
+    if (isBounds(bounds) && getLayerInfoById(map, layerId)) {
+      updateLayerBounds(map, layerId, bounds);
+      onBounds?.(bounds);
+    }
+  };
+  // A failed TileJSON or PMTiles request never delivers metadata
+  const onError = (e: ErrorEvent & { sourceId?: string }) => {
+    if (e.sourceId === sourceId) unwatchSourceBounds(map, layerId);
+  };
+  map.on('sourcedata', onSourceData);
+  map.on('error', onError);
+
+  const watchers = boundsWatchersMap.get(map) || {};
+  watchers[layerId] = () => {
+    map.off('sourcedata', onSourceData);
+    map.off('error', onError);
+  };
+  boundsWatchersMap.set(map, watchers);
+}
+
+/**
+ * Remove the pending source bounds listeners of a layer.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ */
+export function unwatchSourceBounds(map: Map, layerId: string): void {
+  const watchers = boundsWatchersMap.get(map);
+  const unwatch = watchers?.[layerId];
+  if (!watchers || !unwatch) return;
+
+  unwatch();
+  delete watchers[layerId];
+}
+
+/**
+ * Load the bounds of a COG from a TiTiler-compatible tile server and store them.
+ * Failures are reported as map 'error' events, as the layer works without bounds.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param tileServerUrl - Tile server base URL
+ * @param url - COG URL
+ */
+export async function loadCogBounds(
+  map: Map,
+  layerId: string,
+  tileServerUrl: string,
+  url: string
+): Promise<void> {
+  try {
+    const { bounds } = await loadJson<{ bounds?: unknown }>(
+      `${tileServerUrl}/cog/bounds?url=${encodeURIComponent(url)}`
+    );
+    if (isBounds(bounds) && getLayerInfoById(map, layerId)) {
+      updateLayerBounds(map, layerId, bounds);
+    }
+  } catch (error) {
+    map.fire('error', { error });
+  }
+}
@@ -0,0 +1,473 @@
+import type { ExpressionSpecification } from 'maplibre-gl';
+import type { GeoJSON, Feature } from 'geojson';
+import type {
+  CategorizeOptions,
+  ChoroplethOptions,
+  ClassificationScheme,
+  LayerCategories,
+  LayerClassification,
+  LayerSizing,
+  SizeByOptions,
+  SizeScale,
+} from './types';
+import { getColormapColors, getPaletteColors } from './colormaps';
+import { MapExtendError } from '../utils/validation';
+
+/**
+ * Largest number of values used to compute Jenks breaks. Jenks is quadratic in
+ * the number of values, so larger datasets are sampled evenly.
+ */
+const MAX_JENKS_VALUES = 1000;
+
+/**
+ * Get the features of GeoJSON data.
+ *
+ * @param data - GeoJSON data
+ * @returns Features (empty for bare geometries)
+ */
+export function getFeatures(data: GeoJSON): Feature[] {
+  if (data.type === 'FeatureCollection') return data.features;
+  if (data.type === 'Feature') return [data];
+  return [];
+}
+
+/**
+ * Check whether GeoJSON data is a feature collection without features, e.g. a layer
+ * created before a live feed delivers data.
+ *
+ * @param data - GeoJSON data
+ * @returns True for an empty feature collection
+ */
+export function isEmptyCollection(data: GeoJSON): boolean {
+  return data.type === 'FeatureCollection' && data.features.length === 0;
+}
+
+/**
+ * Collect the finite numeric values of a property, sorted in ascending order.
+ *
+ * @param features - GeoJSON features
+ * @param column - Property name
+ * @returns Sorted values
+ */
+export function getNumericValues(features: Feature[], column: string): number[] {
+  return features
+    .map((feature) => feature.properties?.[column])
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Thresholds splitting sorted values into classes of about equal size.
+ *
+ * @param sorted - Sorted values
+ * @param classes - Number of classes
+ * @returns Class thresholds
+ */
+function quantileThresholds(sorted: number[], classes: number): number[] {
+  return Array.from({ length: classes - 1 }, (_, i) => {
+    const position = ((i + 1) / classes) * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, sorted.length - 1);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  });
+}
+
+/**
+ * Thresholds splitting the value range into equal intervals.
+ *
+ * @param sorted - Sorted values
+ * @param classes - Number of classes
+ * @returns Class thresholds
+ */
+function equalThresholds(sorted: number[], classes: number): number[] {
+  const min = sorted[0];
+  const step = (sorted[sorted.length - 1] - min) / classes;
+  return Array.from({ length: classes - 1 }, (_, i) => min + step * (i + 1));
+}
+
+/**
+ * Jenks natural breaks thresholds (Fisher-Jenks), each being the first value
+ * of a class.
+ *
+ * @param sorted - Sorted values
+ * @param classes - Number of classes
+ * @returns Class thresholds
+ */
+function jenksThresholds(sorted: number[], classes: number): number[] {
+  let values = sorted;
+  if (values.length > MAX_JENKS_VALUES) {
+    const step = (sorted.length - 1) / (MAX_JENKS_VALUES - 1);
+    values = Array.from({ length: MAX_JENKS_VALUES }, (_, i) => sorted[Math.round(i * step)]);
+  }
+
+  const n = values.length;
+  const k = Math.min(classes, n);
+
+  // lower[l][j]: 1-based index of the first value of the last class when the
+  // first l values are split into j classes; variance[l][j]: total variance
+  const lower = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+  const variance = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+  for (let j = 1; j <= k; j++) {
+    lower[1][j] = 1;
+    for (let l = 2; l <= n; l++) {
+      variance[l][j] = Infinity;
+    }
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let classVariance = 0;
+
+    for (let m = 1; m <= l; m++) {
+      const first = l - m + 1;
+      const value = values[first - 1];
+      sum += value;
+      sumSquares += value * value;
+      classVariance = sumSquares - (sum * sum) / m;
+
+      if (first > 1) {
+        for (let j = 2; j <= k; j++) {
+          const total = classVariance + variance[first - 1][j - 1];
+          if (variance[l][j] >= total) {
+            lower[l][j] = first;
+            variance[l][j] = total;
+          }
+        }
+      }
+    }
+
+    lower[l][1] = 1;
+    variance[l][1] = classVariance;
+  }
+
+  const thresholds: number[] = [];
+  let end = n;
+  for (let j = k; j > 1; j--) {
+    const first = lower[end][j];
+    thresholds.unshift(values[first - 1]);
+    end = first - 1;
+  }
+  return thresholds;
+}
+
+/**
+ * Compute class thresholds for a classification scheme.
+ *
+ * @param sorted - Sorted values
+ * @param scheme - Classification scheme
+ * @param classes - Number of classes
+ * @param breaks - Manual thresholds
+ * @returns Strictly ascending class thresholds
+ * @throws MapExtendError if the scheme is unknown or manual breaks are missing
+ */
+function computeThresholds(
+  sorted: number[],
+  scheme: ClassificationScheme,
+  classes: number,
+  breaks?: number[]
+): number[] {
+  let thresholds: number[];
+  switch (scheme) {
+    case 'quantile':
+      thresholds = quantileThresholds(sorted, classes);
+      break;
+    case 'equal':
+      thresholds = equalThresholds(sorted, classes);
+      break;
+    case 'jenks':
+      thresholds = jenksThresholds(sorted, classes);
+      break;
+    case 'manual':
+      if (!breaks || breaks.length === 0) {
+        throw new MapExtendError(
+          'The manual classification scheme requires breaks',
+          'INVALID_STYLE',
+          { scheme }
+        );
+      }
+      thresholds = [...breaks].sort((a, b) => a - b);
+      break;
+    default:
+      throw new MapExtendError(
+        `Unknown classification scheme: ${scheme}. Valid options: quantile, equal, jenks, manual`,
+        'INVALID_STYLE',
+        { scheme }
+      );
+  }
+
+  // 'step' expressions need strictly ascending stops, so drop duplicates
+  // (e.g., quantiles of data with many equal values)
+  return thresholds.filter((value, i) => i === 0 || value > thresholds[i - 1]);
+}
+
+/**
+ * Classify a numeric property of GeoJSON features.
+ *
+ * @param data - GeoJSON data
+ * @param style - Choropleth options
+ * @returns Class breaks and colors
+ * @throws MapExtendError if the property has no numeric values or the options are invalid
+ */
+export function classifyFeatures(data: GeoJSON, style: ChoroplethOptions): LayerClassification {
+  const scheme = style.scheme || 'quantile';
+  const sorted = getNumericValues(getFeatures(data), style.column);
+  if (sorted.length === 0) {
+    throw new MapExtendError(
+      `No numeric values found for property ${style.column}`,
+      'INVALID_STYLE',
+      { column: style.column }
+    );
+  }
+
+  const classes =
+    style.classes ?? (scheme === 'manual' && style.breaks ? style.breaks.length + 1 : 5);
+  if (!Number.isInteger(classes) || classes < 1) {
+    throw new MapExtendError(
+      `Number of classes must be a positive integer, got ${classes}`,
+      'INVALID_STYLE',
+      { classes }
+    );
+  }
+
+  const thresholds = classes > 1 ? computeThresholds(sorted, scheme, classes, style.breaks) : [];
+  const count = thresholds.length + 1;
+
+  if (style.colors && style.colors.length < count) {
+    throw new MapExtendError(
+      `Expected ${count} colors for ${count} classes, got ${style.colors.length}`,
+      'INVALID_STYLE',
+      { colors: style.colors, classes: count }
+    );
+  }
+  const colors = style.colors
+    ? style.colors.slice(0, count)
+    : getColormapColors(style.colormap || 'viridis', count);
+
+  const min = Math.min(sorted[0], thresholds[0] ?? Infinity);
+  const max = Math.max(sorted[sorted.length - 1], thresholds[thresholds.length - 1] ?? -Infinity);
+
+  return {
+    column: style.column,
+    scheme,
+    breaks: [min, ...thresholds, max],
+    colors,
+    nullColor: style.nullColor || '#cccccc',
+  };
+}
+
+/**
+ * Build a color expression for a classification. Features without a numeric
+ * value get the null color.
+ *
+ * @param classification - Class breaks and colors
+ * @returns 'step' expression wrapped in a numeric check
+ */
+export function buildClassificationExpression(
+  classification: LayerClassification
+): ExpressionSpecification {
+  const { column, breaks, colors, nullColor } = classification;
+  const stops = breaks.slice(1, -1).flatMap((threshold, i) => [threshold, colors[i + 1]]);
+  const step = ['step', ['get', column], colors[0], ...stops] as ExpressionSpecification;
+
+  return ['case', ['==', ['typeof', ['get', column]], 'number'], step, nullColor];
+}
+
+/**
+ * Collect the unique string and numeric values of a property. Numbers sort
+ * before strings; each group is sorted in ascending order.
+ *
+ * @param features - GeoJSON features
+ * @param column - Property name
+ * @returns Unique values
+ */
+export function getUniqueValues(features: Feature[], column: string): (string | number)[] {
+  const values = new Set<string | number>();
+  features.forEach((feature) => {
+    const value = feature.properties?.[column];
+    if (typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))) {
+      values.add(value);
+    }
+  });
+
+  return [...values].sort((a, b) => {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (typeof a === 'number') return -1;
+    if (typeof b === 'number') return 1;
+    return a.localeCompare(b);
+  });
+}
+
+/**
+ * Assign colors to category values.
+ *
+ * @param values - Category values in legend order
+ * @param options - Categorize options
+ * @returns Category colors
+ * @throws MapExtendError if there are no categories or the palette is unknown
+ */
+export function categorizeValues(
+  values: (string | number)[],
+  options: CategorizeOptions
+): LayerCategories {
+  if (values.length === 0) {
+    throw new MapExtendError(
+      `No category values found for property ${options.column}`,
+      'INVALID_STYLE',
+      { column: options.column }
+    );
+  }
+
+  const palette = getPaletteColors(options.palette || 'tab10', values.length);
+  return {
+    column: options.column,
+    categories: values.map((value, i) => ({
+      value,
+      color: options.colors?.[String(value)] ?? palette[i],
+    })),
+    otherColor: options.otherColor || '#cccccc',
+  };
+}
+
+/**
+ * Build a color expression for category colors. Mixed string and numeric
+ * values are compared as strings, as 'match' labels must share one type.
+ *
+ * @param categories - Category colors
+ * @returns 'match' expression
+ */
+export function buildCategoryExpression(categories: LayerCategories): ExpressionSpecification {
+  const { column, otherColor } = categories;
+  const numeric = categories.categories.every(({ value }) => typeof value === 'number');
+  const input = numeric ? ['get', column] : ['to-string', ['get', column]];
+  // Labels must be unique, e.g. 1 and '1' both become '1'
+  const labels = new Set<string>();
+  const branches = categories.categories.flatMap(({ value, color }) => {
+    const label = String(value);
+    if (labels.has(label)) return [];
+    labels.add(label);
+    return [numeric ? value : label, color];
+  });
+
+  return ['match', input, ...branches, otherColor] as ExpressionSpecification;
+}
+
+/**
+ * Compute the value extents for proportional circle sizing. Values outside the
+ * domain of the scale (negative for 'sqrt', non-positive for 'log') are ignored.
+ *
+ * @param data - GeoJSON data
+ * @param options - Sizing options
+ * @returns Value extents and radii
+ * @throws MapExtendError if the property has no usable values or the range is invalid
+ */
+export function computeSizing(data: GeoJSON, options: SizeByOptions): LayerSizing {
+  const scale = options.scale || 'sqrt';
+  const range = options.range ?? [4, 24];
+  if (!range.every((radius) => Number.isFinite(radius) && radius >= 0) || range[0] > range[1]) {
+    throw new MapExtendError(
+      `Invalid radius range: [${range.join(', ')}]`,
+      'INVALID_STYLE',
+      { range }
+    );
+  }
+
+  const values = getNumericValues(getFeatures(data), options.column).filter((value) =>
+    scale === 'log' ? value > 0 : scale === 'sqrt' ? value >= 0 : true
+  );
+  if (values.length === 0) {
+    throw new MapExtendError(
+      `No values found for property ${options.column} on a ${scale} scale`,
+      'INVALID_STYLE',
+      { column: options.column, scale }
+    );
+  }
+
+  return {
+    column: options.column,
+    scale,
+    domain: [values[0], values[values.length - 1]],
+    range: [range[0], range[1]],
+  };
+}
+
+/**
+ * Apply a size scale to a value expression, clamping values outside the
+ * domain of the scale.
+ *
+ * @param value - Value expression
+ * @param scale - Size scale
+ * @param min - Smallest value in the data
+ * @returns Scaled value expression
+ */
+function scaleExpression(value: unknown, scale: SizeScale, min: number): unknown {
+  switch (scale) {
+    case 'sqrt':
+      return ['sqrt', ['max', value, 0]];
+    case 'log':
+      return ['log10', ['max', value, min]];
+    default:
+      return value;
+  }
+}
+
+/**
+ * Apply a size scale to a number.
+ *
+ * @param value - Value
+ * @param scale - Size scale
+ * @returns Scaled value
+ */
+function scaleValue(value: number, scale: SizeScale): number {
+  switch (scale) {
+    case 'sqrt':
+      return Math.sqrt(value);
+    case 'log':
+      return Math.log10(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Build a circle-radius expression for proportional sizing. Features without
+ * a numeric value get the smallest radius.
+ *
+ * @param sizing - Value extents and radii
+ * @param zoomScaling - Zoom scaling options
+ * @returns 'interpolate' expression, nested in a zoom interpolation when zoom scaling is on
+ */
+export function buildSizeExpression(
+  sizing: LayerSizing,
+  zoomScaling?: SizeByOptions['zoomScaling']
+): ExpressionSpecification {
+  const { column, scale, domain, range } = sizing;
+  const value = ['get', column];
+
+  // 'interpolate' needs ascending stops, so a single value gets the largest radius
+  const radius =
+    domain[0] === domain[1]
+      ? range[1]
+      : [
+          'interpolate',
+          ['linear'],
+          scaleExpression(value, scale, domain[0]),
+          scaleValue(domain[0], scale),
+          range[0],
+          scaleValue(domain[1], scale),
+          range[1],
+        ];
+  const sized = [
+    'case',
+    ['==', ['typeof', value], 'number'],
+    radius,
+    range[0],
+  ] as ExpressionSpecification;
+
+  if (!zoomScaling) {
+    return sized;
+  }
+
+  const { minZoom = 2, maxZoom = 12, factor = 0.25 } = zoomScaling === true ? {} : zoomScaling;
+  return ['interpolate', ['linear'], ['zoom'], minZoom, ['*', factor, sized], maxZoom, sized];
+}
@@ -0,0 +1,186 @@
+import type {
+  Map,
+  AddLayerObject,
+  ExpressionSpecification,
+  GeoJSONSource,
+  GeoJSONSourceSpecification,
+  MapLayerMouseEvent,
+} from 'maplibre-gl';
+import type { Point } from 'geojson';
+import type { ClusterOptions } from './types';
+import { resolveTextFont } from './labels';
+import { MapExtendError } from '../utils/validation';
+
+const DEFAULT_CLUSTER_COLORS = ['#51bbd6', '#f1f075', '#f28cb1'];
+const DEFAULT_SIZE_STEPS = [100, 750];
+
+/**
+ * Click and hover handlers of a cluster layer.
+ */
+interface ClusterHandlers {
+  onClick: (e: MapLayerMouseEvent) => void;
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+}
+
+// Store for tracking cluster handlers per map instance and layer
+const clusterHandlersMap = new WeakMap<Map, Record<string, ClusterHandlers>>();
+
+/**
+ * Get the GeoJSON source options that enable clustering.
+ *
+ * @param cluster - Cluster options
+ * @returns Clustering source options
+ */
+export function getClusterSourceOptions(
+  cluster: true | ClusterOptions
+): Partial<GeoJSONSourceSpecification> {
+  const options: ClusterOptions = cluster === true ? {} : cluster;
+  const sourceOptions: Partial<GeoJSONSourceSpecification> = {
+    cluster: true,
+    clusterRadius: options.radius ?? 50,
+    clusterMaxZoom: options.maxZoom ?? 14,
+  };
+  if (options.properties) {
+    sourceOptions.clusterProperties = options.properties;
+  }
+  return sourceOptions;
+}
+
+/**
+ * Build the layers drawing clustered points: cluster circles (with the layer ID),
+ * cluster counts (`<layerId>-count`) and unclustered points (`<layerId>-points`).
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param sourceId - Clustered GeoJSON source ID
+ * @param cluster - Cluster options
+ * @param pointPaint - Paint properties of unclustered points
+ * @returns Layer specifications in stacking order
+ * @throws MapExtendError if the colors do not match the size steps, or glyphs are unavailable
+ */
+export function buildClusterLayers(
+  map: Map,
+  layerId: string,
+  sourceId: string,
+  cluster: true | ClusterOptions,
+  pointPaint: Record<string, unknown>
+): AddLayerObject[] {
+  const options: ClusterOptions = cluster === true ? {} : cluster;
+  const colors = options.colors ?? DEFAULT_CLUSTER_COLORS;
+  const sizeSteps = options.sizeSteps ?? DEFAULT_SIZE_STEPS;
+  if (colors.length !== sizeSteps.length + 1) {
+    throw new MapExtendError(
+      `Expected ${sizeSteps.length + 1} cluster colors for ${sizeSteps.length} size steps, ` +
+        `got ${colors.length}`,
+      'INVALID_CLUSTER',
+      { colors, sizeSteps }
+    );
+  }
+
+  const pointCount: ExpressionSpecification = ['get', 'point_count'];
+  const steps = (values: (string | number)[]) => [
+    'step',
+    pointCount,
+    values[0],
+    ...sizeSteps.flatMap((step, i) => [step, values[i + 1]]),
+  ];
+
+  return [
+    {
+      id: layerId,
+      type: 'circle',
+      source: sourceId,
+      filter: ['has', 'point_count'],
+      paint: {
+        'circle-color': steps(colors),
+        'circle-radius': steps(colors.map((_, i) => 15 + 5 * i)),
+        'circle-opacity': pointPaint['circle-opacity'] ?? 1,
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 1,
+      },
+    },
+    {
+      id: `${layerId}-count`,
+      type: 'symbol',
+      source: sourceId,
+      filter: ['has', 'point_count'],
+      layout: {
+        'text-field': ['get', 'point_count_abbreviated'],
+        'text-font': resolveTextFont(map),
+        'text-size': 12,
+        'text-allow-overlap': true,
+      },
+      paint: {
+        'text-color': '#333333',
+      },
+    },
+    {
+      id: `${layerId}-points`,
+      type: 'circle',
+      source: sourceId,
+      filter: ['!', ['has', 'point_count']],
+      paint: pointPaint,
+    },
+  ] as AddLayerObject[];
+}
+
+/**
+ * Zoom to the expansion zoom of a cluster when it is clicked.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Cluster circle layer ID
+ * @param sourceId - Clustered GeoJSON source ID
+ */
+export function bindClusterZoom(map: Map, layerId: string, sourceId: string): void {
+  unbindClusterZoom(map, layerId);
+
+  const handlers: ClusterHandlers = {
+    onClick: async (e) => {
+      const feature = e.features?.[0];
+      const source = map.getSource<GeoJSONSource>(sourceId);
+      if (!feature || !source) return;
+
+      try {
+        const zoom = await source.getClusterExpansionZoom(feature.properties.cluster_id);
+        map.easeTo({
+          center: (feature.geometry as Point).coordinates as [number, number],
+          zoom,
+        });
+      } catch (error) {
+        map.fire('error', { error });
+      }
+    },
+    onMouseEnter: () => {
+      map.getCanvas().style.cursor = 'pointer';
+    },
+    onMouseLeave: () => {
+      map.getCanvas().style.cursor = '';
+    },
+  };
+
+  map.on('click', layerId, handlers.onClick);
+  map.on('mouseenter', layerId, handlers.onMouseEnter);
+  map.on('mouseleave', layerId, handlers.onMouseLeave);
+
+  const allHandlers = clusterHandlersMap.get(map) || {};
+  allHandlers[layerId] = handlers;
+  clusterHandlersMap.set(map, allHandlers);
+}
+
+/**
+ * Remove the cluster click handlers of a layer.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Cluster circle layer ID
+ */
+export function unbindClusterZoom(map: Map, layerId: string): void {
+  const allHandlers = clusterHandlersMap.get(map);
+  const handlers = allHandlers?.[layerId];
+  if (!allHandlers || !handlers) return;
+
+  map.off('click', layerId, handlers.onClick);
+  map.off('mouseenter', layerId, handlers.onMouseEnter);
+  map.off('mouseleave', layerId, handlers.onMouseLeave);
+  delete allHandlers[layerId];
+}
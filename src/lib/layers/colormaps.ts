@@ -0,0 +1,213 @@
+import { MapExtendError } from '../utils/validation';
+
+/**
+ * Anchor colors of the named colormaps (matplotlib and ColorBrewer).
+ */
+const COLORMAPS = {
+  viridis: [
+    '#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30',
+    '#fde725',
+  ],
+  plasma: [
+    '#0d0887', '#4c02a1', '#7e03a8', '#a92395', '#cc4778', '#e56b5d', '#f89441', '#fdc328',
+    '#f0f921',
+  ],
+  inferno: [
+    '#000004', '#1f0c48', '#550f6d', '#88226a', '#ba3655', '#e35933', '#f98e09', '#f8c932',
+    '#fcffa4',
+  ],
+  magma: [
+    '#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287',
+    '#fcfdbf',
+  ],
+  cividis: [
+    '#00224e', '#123570', '#3b496c', '#575d6d', '#707173', '#8a8678', '#a59c74', '#c3b369',
+    '#fee838',
+  ],
+  blues: [
+    '#f7fbff', '#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c',
+    '#08306b',
+  ],
+  greens: [
+    '#f7fcf5', '#e5f5e0', '#c7e9c0', '#a1d99b', '#74c476', '#41ab5d', '#238b45', '#006d2c',
+    '#00441b',
+  ],
+  reds: [
+    '#fff5f0', '#fee0d2', '#fcbba1', '#fc9272', '#fb6a4a', '#ef3b2c', '#cb181d', '#a50f15',
+    '#67000d',
+  ],
+  oranges: [
+    '#fff5eb', '#fee6ce', '#fdd0a2', '#fdae6b', '#fd8d3c', '#f16913', '#d94801', '#a63603',
+    '#7f2704',
+  ],
+  purples: [
+    '#fcfbfd', '#efedf5', '#dadaeb', '#bcbddc', '#9e9ac8', '#807dba', '#6a51a3', '#54278f',
+    '#3f007d',
+  ],
+  greys: [
+    '#ffffff', '#f0f0f0', '#d9d9d9', '#bdbdbd', '#969696', '#737373', '#525252', '#252525',
+    '#000000',
+  ],
+  ylorrd: [
+    '#ffffcc', '#ffeda0', '#fed976', '#feb24c', '#fd8d3c', '#fc4e2a', '#e31a1c', '#bd0026',
+    '#800026',
+  ],
+  ylgnbu: [
+    '#ffffd9', '#edf8b1', '#c7e9b4', '#7fcdbb', '#41b6c4', '#1d91c0', '#225ea8', '#253494',
+    '#081d58',
+  ],
+  rdylbu: [
+    '#a50026', '#d73027', '#f46d43', '#fdae61', '#fee090', '#ffffbf', '#e0f3f8', '#abd9e9',
+    '#74add1', '#4575b4', '#313695',
+  ],
+  rdylgn: [
+    '#a50026', '#d73027', '#f46d43', '#fdae61', '#fee08b', '#ffffbf', '#d9ef8b', '#a6d96a',
+    '#66bd63', '#1a9850', '#006837',
+  ],
+  rdbu: [
+    '#67001f', '#b2182b', '#d6604d', '#f4a582', '#fddbc7', '#f7f7f7', '#d1e5f0', '#92c5de',
+    '#4393c3', '#2166ac', '#053061',
+  ],
+  spectral: [
+    '#9e0142', '#d53e4f', '#f46d43', '#fdae61', '#fee08b', '#ffffbf', '#e6f598', '#abdda4',
+    '#66c2a5', '#3288bd', '#5e4fa2',
+  ],
+};
+
+/**
+ * Name of a continuous colormap. Append '_r' to reverse it (e.g., 'viridis_r').
+ */
+export type ColormapName = keyof typeof COLORMAPS | `${keyof typeof COLORMAPS}_r`;
+
+/**
+ * Parse a #rrggbb color.
+ *
+ * @param hex - Hex color
+ * @returns RGB components
+ */
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Format RGB components as a #rrggbb color.
+ *
+ * @param rgb - RGB components
+ * @returns Hex color
+ */
+function rgbToHex(rgb: number[]): string {
+  return `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Get the anchor colors of a colormap.
+ *
+ * @param name - Colormap name
+ * @returns Anchor colors from low to high
+ * @throws MapExtendError if the colormap is unknown
+ */
+function getColormapAnchors(name: ColormapName): string[] {
+  const reversed = name.endsWith('_r');
+  const key = (reversed ? name.slice(0, -2) : name).toLowerCase() as keyof typeof COLORMAPS;
+  const anchors = COLORMAPS[key];
+  if (!anchors) {
+    throw new MapExtendError(
+      `Unknown colormap: ${name}. Valid options: ${Object.keys(COLORMAPS).join(', ')}`,
+      'INVALID_COLORMAP',
+      { name }
+    );
+  }
+  return reversed ? [...anchors].reverse() : anchors;
+}
+
+/**
+ * Sample a color from a colormap.
+ *
+ * @param name - Colormap name
+ * @param t - Position between 0 (low) and 1 (high)
+ * @returns Hex color
+ * @throws MapExtendError if the colormap is unknown
+ */
+export function sampleColormap(name: ColormapName, t: number): string {
+  const anchors = getColormapAnchors(name);
+  const position = Math.min(Math.max(t, 0), 1) * (anchors.length - 1);
+  const i = Math.min(Math.floor(position), anchors.length - 2);
+  const f = position - i;
+  const [a, b] = [hexToRgb(anchors[i]), hexToRgb(anchors[i + 1])];
+  return rgbToHex(a.map((c, k) => c + (b[k] - c) * f));
+}
+
+/**
+ * Get evenly spaced colors from a colormap, e.g. for class breaks.
+ *
+ * @param name - Colormap name
+ * @param count - Number of colors
+ * @returns Hex colors from low to high
+ * @throws MapExtendError if the colormap is unknown
+ *
+ * @example
+ * ```ts
+ * getColormapColors('viridis', 5); // ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725']
+ * ```
+ */
+export function getColormapColors(name: ColormapName, count: number): string[] {
+  return Array.from({ length: count }, (_, i) =>
+    sampleColormap(name, count === 1 ? 0.5 : i / (count - 1))
+  );
+}
+
+/**
+ * Qualitative palettes for categorical data (matplotlib and ColorBrewer).
+ */
+const PALETTES = {
+  tab10: [
+    '#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f',
+    '#bcbd22', '#17becf',
+  ],
+  set1: [
+    '#e41a1c', '#377eb8', '#4daf4a', '#984ea3', '#ff7f00', '#ffff33', '#a65628', '#f781bf',
+    '#999999',
+  ],
+  set2: ['#66c2a5', '#fc8d62', '#8da0cb', '#e78ac3', '#a6d854', '#ffd92f', '#e5c494', '#b3b3b3'],
+  set3: [
+    '#8dd3c7', '#ffffb3', '#bebada', '#fb8072', '#80b1d3', '#fdb462', '#b3de69', '#fccde5',
+    '#d9d9d9', '#bc80bd', '#ccebc5', '#ffed6f',
+  ],
+  pastel1: [
+    '#fbb4ae', '#b3cde3', '#ccebc5', '#decbe4', '#fed9a6', '#ffffcc', '#e5d8bd', '#fddaec',
+    '#f2f2f2',
+  ],
+  dark2: ['#1b9e77', '#d95f02', '#7570b3', '#e7298a', '#66a61e', '#e6ab02', '#a6761d', '#666666'],
+  paired: [
+    '#a6cee3', '#1f78b4', '#b2df8a', '#33a02c', '#fb9a99', '#e31a1c', '#fdbf6f', '#ff7f00',
+    '#cab2d6', '#6a3d9a', '#ffff99', '#b15928',
+  ],
+  accent: ['#7fc97f', '#beaed4', '#fdc086', '#ffff99', '#386cb0', '#f0027f', '#bf5b17', '#666666'],
+};
+
+/**
+ * Name of a qualitative palette.
+ */
+export type PaletteName = keyof typeof PALETTES;
+
+/**
+ * Get colors for categories from a qualitative palette or a list of colors.
+ * Colors repeat when there are more categories than colors.
+ *
+ * @param palette - Palette name or colors
+ * @param count - Number of colors
+ * @returns Hex colors
+ * @throws MapExtendError if the palette is unknown or empty
+ */
+export function getPaletteColors(palette: PaletteName | string[], count: number): string[] {
+  const colors = Array.isArray(palette) ? palette : PALETTES[palette];
+  if (!colors || colors.length === 0) {
+    throw new MapExtendError(
+      `Unknown palette: ${palette}. Valid options: ${Object.keys(PALETTES).join(', ')}`,
+      'INVALID_COLORMAP',
+      { palette }
+    );
+  }
+  return Array.from({ length: count }, (_, i) => colors[i % colors.length]);
+}
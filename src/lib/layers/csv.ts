@@ -0,0 +1,299 @@
+import type { Map } from 'maplibre-gl';
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
+import type { AddCsvOptions, AddCsvResult, CsvInvalidRow } from './types';
+import { addGeojson } from './geojson';
+import { MapExtendError } from '../utils/validation';
+import { loadText } from '../utils/loader';
+
+/**
+ * Column names recognized as latitude and longitude, in order of preference.
+ */
+const LAT_COLUMNS = ['lat', 'latitude', 'y'];
+const LON_COLUMNS = ['lon', 'lng', 'long', 'longitude', 'x'];
+
+/**
+ * Delimiters detected from the header line.
+ */
+const DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Single-line strings loaded as URLs: absolute HTTP(S), blob and data URLs, and paths.
+ */
+const URL_PATTERN = /^(https?:|blob:|data:|\/|\.{1,2}\/)/i;
+
+/**
+ * Nesting depth of the coordinates of each WKT geometry type.
+ */
+const WKT_DEPTHS: Record<string, [Geometry['type'], number]> = {
+  POINT: ['Point', 1],
+  LINESTRING: ['LineString', 2],
+  POLYGON: ['Polygon', 3],
+  MULTIPOINT: ['MultiPoint', 2],
+  MULTILINESTRING: ['MultiLineString', 3],
+  MULTIPOLYGON: ['MultiPolygon', 4],
+};
+
+/**
+ * Detect the delimiter of a header line, ignoring quoted text.
+ *
+ * @param header - Header line
+ * @returns The most frequent delimiter (default: comma)
+ */
+function detectDelimiter(header: string): string {
+  const unquoted = header.replace(/"[^"]*"/g, '');
+  const counts = DELIMITERS.map((d) => unquoted.split(d).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? DELIMITERS[best] : ',';
+}
+
+/**
+ * Parse delimited text into rows of fields. Quoted fields may contain
+ * delimiters, line breaks and doubled quotes.
+ *
+ * @param text - Delimited text
+ * @param delimiter - Field delimiter
+ * @returns Rows of fields, without blank lines
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((r) => r.length > 1 || r[0].trim() !== '');
+}
+
+/**
+ * Convert a field to a number, boolean or null where it looks like one.
+ * Numbers with leading zeros (e.g., postal codes) stay strings.
+ *
+ * @param value - Field text
+ * @returns Typed value
+ */
+function inferType(value: string): string | number | boolean | null {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][-+]?\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (/^true$/i.test(trimmed)) return true;
+  if (/^false$/i.test(trimmed)) return false;
+  return value;
+}
+
+/**
+ * Parse a coordinate field.
+ *
+ * @param value - Field text
+ * @returns The number, or NaN if the field is not a number
+ */
+function parseCoordinate(value: string | undefined): number {
+  const trimmed = value?.trim() ?? '';
+  return trimmed === '' ? NaN : Number(trimmed);
+}
+
+/**
+ * Check that coordinates are nested to a depth, with positions of 2 to 4 numbers.
+ *
+ * @param value - Coordinates
+ * @param depth - Expected depth (1 for a position)
+ * @returns True if the coordinates are valid
+ */
+function isValidCoordinates(value: unknown, depth: number): boolean {
+  if (!Array.isArray(value) || value.length === 0) return false;
+  if (depth > 1) return value.every((item) => isValidCoordinates(item, depth - 1));
+  return (
+    value.length >= 2 &&
+    value.length <= 4 &&
+    value.every((n) => typeof n === 'number' && Number.isFinite(n))
+  );
+}
+
+/**
+ * Parse a WKT geometry (POINT, LINESTRING, POLYGON and their MULTI variants).
+ *
+ * @param wkt - Well-known text
+ * @returns GeoJSON geometry, or null if the text cannot be parsed
+ */
+export function parseWkt(wkt: string): Geometry | null {
+  const match = /^\s*(?:SRID=\d+;\s*)?([A-Z]+)\s*(?:ZM|Z|M)?\s*(\(.*\))\s*$/i.exec(wkt);
+  const definition = match && WKT_DEPTHS[match[1].toUpperCase()];
+  if (!match || !definition) return null;
+
+  let coordinates: unknown;
+  try {
+    coordinates = JSON.parse(
+      match[2]
+        .replace(/[^\s(),]+(?:\s+[^\s(),]+)+/g, (position) => `[${position.trim().split(/\s+/)}]`)
+        .replace(/\(/g, '[')
+        .replace(/\)/g, ']')
+    );
+  } catch {
+    return null;
+  }
+
+  const [type, depth] = definition;
+  // POINT (x y) parses as [[x, y]]; MULTIPOINT may list points with or without parentheses
+  if (type === 'Point') coordinates = (coordinates as unknown[])[0];
+  if (type === 'MultiPoint' && isValidCoordinates(coordinates, 3)) {
+    coordinates = (coordinates as unknown[][]).map((point) => point[0]);
+  }
+  return isValidCoordinates(coordinates, depth) ? ({ type, coordinates } as Geometry) : null;
+}
+
+/**
+ * Find a column by name, ignoring case.
+ *
+ * @param columns - Header columns
+ * @param candidates - Names to look for, in order of preference
+ * @returns Column index, or -1 if none is found
+ */
+function findColumn(columns: string[], candidates: string[]): number {
+  const lower = columns.map((column) => column.trim().toLowerCase());
+  for (const candidate of candidates) {
+    const index = lower.indexOf(candidate.toLowerCase());
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+/**
+ * Convert delimited text to GeoJSON features, from latitude and longitude
+ * columns or a WKT column.
+ *
+ * @param text - Delimited text with a header line
+ * @param options - Column and parsing options
+ * @returns Features and the rows whose geometry is invalid
+ * @throws MapExtendError if the text has no header or the geometry columns are not found
+ */
+export function csvToGeojson(
+  text: string,
+  options: AddCsvOptions = {}
+): { data: FeatureCollection; invalidRows: CsvInvalidRow[] } {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = options.delimiter ?? detectDelimiter(content.split(/\r?\n/, 1)[0]);
+  const [columns, ...rows] = parseDelimited(content, delimiter);
+  if (!columns) {
+    throw new MapExtendError('CSV has no header line', 'INVALID_CSV');
+  }
+
+  const wktIndex = options.wktColumn ? findColumn(columns, [options.wktColumn]) : -1;
+  const latIndex = findColumn(columns, options.latColumn ? [options.latColumn] : LAT_COLUMNS);
+  const lonIndex = findColumn(columns, options.lonColumn ? [options.lonColumn] : LON_COLUMNS);
+  if (options.wktColumn ? wktIndex < 0 : latIndex < 0 || lonIndex < 0) {
+    throw new MapExtendError(
+      options.wktColumn
+        ? `WKT column ${options.wktColumn} not found`
+        : 'Latitude and longitude columns not found; set latColumn and lonColumn',
+      'INVALID_CSV',
+      { columns, delimiter }
+    );
+  }
+
+  const geometryIndexes = options.wktColumn ? [wktIndex] : [latIndex, lonIndex];
+  const typeInference = options.typeInference ?? true;
+  const features: Feature[] = [];
+  const invalidRows: CsvInvalidRow[] = [];
+
+  rows.forEach((values, i) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, j) => {
+      record[column] = values[j] ?? '';
+    });
+
+    let geometry: Geometry | null;
+    let reason = '';
+    if (options.wktColumn) {
+      geometry = parseWkt(values[wktIndex] ?? '');
+      reason = 'Invalid WKT geometry';
+    } else {
+      const lat = parseCoordinate(values[latIndex]);
+      const lon = parseCoordinate(values[lonIndex]);
+      const isValid = Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+      geometry = isValid ? { type: 'Point', coordinates: [lon, lat] } : null;
+      reason =
+        Number.isNaN(lat) || Number.isNaN(lon)
+          ? 'Missing or non-numeric coordinates'
+          : 'Coordinates out of range';
+    }
+
+    if (!geometry) {
+      // Row numbers count the header as row 1, as in spreadsheets
+      invalidRows.push({ row: i + 2, reason, values: record });
+      return;
+    }
+
+    const properties: Record<string, unknown> = {};
+    columns.forEach((column, j) => {
+      if (geometryIndexes.includes(j)) return;
+      properties[column] = typeInference ? inferType(record[column]) : record[column];
+    });
+    features.push({ type: 'Feature', geometry, properties });
+  });
+
+  return { data: { type: 'FeatureCollection', features }, invalidRows };
+}
+
+/**
+ * Add CSV or other delimited text to the map as a GeoJSON layer. Geometries come
+ * from latitude and longitude columns (detected by name if not given) or a WKT
+ * column; other columns become feature properties for styling, labels and popups.
+ *
+ * @param map - MapLibre map instance
+ * @param csv - Delimited text, or URL (http, https, blob, data or a path) to load it from
+ * @param options - CSV and layer options
+ * @returns The layer ID and the rows skipped for invalid geometries
+ * @throws MapExtendError if the text cannot be loaded, the geometry columns are not
+ * found, or the layer options are invalid
+ *
+ * @example
+ * ```ts
+ * const { layerId, invalidRows } = await map.addCsv('https://example.com/stations.csv', {
+ *   sizeBy: { column: 'discharge' },
+ *   popup: true,
+ * });
+ * ```
+ */
+export async function addCsv(
+  map: Map,
+  csv: string,
+  options: AddCsvOptions = {}
+): Promise<AddCsvResult> {
+  const isUrl = !/[\r\n]/.test(csv) && URL_PATTERN.test(csv.trim());
+  const text = isUrl ? await loadText(csv.trim(), options.loadOptions) : csv;
+  const { data, invalidRows } = csvToGeojson(text, options);
+
+  // Points get a circle layer even when no row is valid yet
+  const layerId = await addGeojson(map, data, {
+    ...(!options.wktColumn && { type: 'circle' }),
+    ...options,
+  });
+  return { layerId, invalidRows };
+}
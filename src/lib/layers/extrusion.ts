@@ -0,0 +1,140 @@
+import type { ExpressionSpecification, FitBoundsOptions } from 'maplibre-gl';
+import type { GeoJSON } from 'geojson';
+import type { ExtrudeOptions, ExtrusionColorOptions } from './types';
+import { getFeatures, getNumericValues, isEmptyCollection } from './classify';
+import { sampleColormap } from './colormaps';
+import { MapExtendError } from '../utils/validation';
+
+/**
+ * Camera pitch used when fitting the bounds of extruded layers.
+ */
+export const DEFAULT_EXTRUSION_PITCH = 45;
+
+/**
+ * Number of colors sampled from a colormap for continuous extrusion colors.
+ */
+const COLOR_STEPS = 7;
+
+/**
+ * Build a height expression from a property, a constant and a multiplier.
+ *
+ * @param column - Numeric property
+ * @param fallback - Value of features without the property
+ * @param multiplier - Factor applied to the value
+ * @returns Height expression or constant
+ */
+function buildHeightExpression(
+  column: string | undefined,
+  fallback: number,
+  multiplier: number
+): ExpressionSpecification | number {
+  if (!column) return fallback * multiplier;
+  const value: ExpressionSpecification = ['to-number', ['get', column], fallback];
+  return multiplier === 1 ? value : ['*', value, multiplier];
+}
+
+/**
+ * Build a color expression interpolating a numeric property along a colormap.
+ *
+ * @param colorBy - Color options
+ * @param column - Property to color by
+ * @param data - GeoJSON data the domain is computed from when not given
+ * @returns Color expression or color
+ * @throws MapExtendError if the domain is unknown or the colormap is invalid
+ */
+function buildColorExpression(
+  colorBy: ExtrusionColorOptions,
+  column: string,
+  data?: GeoJSON
+): ExpressionSpecification | string {
+  const colormap = colorBy.colormap || 'viridis';
+  // Empty layers are restyled from the data once features arrive
+  if (!colorBy.domain && data && isEmptyCollection(data)) return sampleColormap(colormap, 1);
+  const values = colorBy.domain ? [] : data ? getNumericValues(getFeatures(data), column) : [];
+  const [min, max] = colorBy.domain ?? [values[0], values[values.length - 1]];
+  if (min === undefined || max === undefined) {
+    throw new MapExtendError(
+      data
+        ? `No numeric values found for extrusion color ${column}`
+        : 'Coloring vector tile extrusions needs a domain',
+      'INVALID_EXTRUSION',
+      { column }
+    );
+  }
+  if (min === max) return sampleColormap(colormap, 1);
+
+  const stops = Array.from({ length: COLOR_STEPS }, (_, i) => [
+    min + ((max - min) * i) / (COLOR_STEPS - 1),
+    sampleColormap(colormap, i / (COLOR_STEPS - 1)),
+  ]);
+  return [
+    'interpolate',
+    ['linear'],
+    ['to-number', ['get', column], min],
+    ...stops.flat(),
+  ] as ExpressionSpecification;
+}
+
+/**
+ * Build the paint properties of a fill-extrusion layer.
+ *
+ * @param extrude - Extrusion options
+ * @param color - Color used when the extrusion is not colored by a property
+ * @param opacity - Layer opacity
+ * @param data - GeoJSON data, for color domains computed from the data
+ * @returns Paint properties
+ * @throws MapExtendError if no height is given or the color options are invalid
+ */
+export function buildExtrusionPaint(
+  extrude: ExtrudeOptions | undefined,
+  color: ExpressionSpecification | string,
+  opacity: number,
+  data?: GeoJSON
+): Record<string, unknown> {
+  if (!extrude?.heightColumn && extrude?.height === undefined) {
+    throw new MapExtendError(
+      'Extrusions need a heightColumn or a height',
+      'INVALID_EXTRUSION',
+      { extrude }
+    );
+  }
+
+  const multiplier = extrude.multiplier ?? 1;
+  const colorColumn = extrude.colorBy?.column ?? extrude.heightColumn;
+  if (extrude.colorBy && !colorColumn) {
+    throw new MapExtendError(
+      'Coloring extrusions needs a column when heights are constant',
+      'INVALID_EXTRUSION',
+      { extrude }
+    );
+  }
+
+  return {
+    'fill-extrusion-color':
+      extrude.colorBy && colorColumn
+        ? buildColorExpression(extrude.colorBy, colorColumn, data)
+        : color,
+    'fill-extrusion-height': buildHeightExpression(
+      extrude.heightColumn,
+      extrude.height ?? 0,
+      multiplier
+    ),
+    'fill-extrusion-base': buildHeightExpression(extrude.baseColumn, 0, multiplier),
+    'fill-extrusion-opacity': opacity,
+  };
+}
+
+/**
+ * Tilt the camera when fitting the bounds of an extruded layer, so the
+ * extrusions are visible. An explicit pitch in the options takes precedence.
+ *
+ * @param extrude - Extrusion options
+ * @param options - fitBounds options
+ * @returns fitBounds options with a pitch
+ */
+export function withExtrusionPitch(
+  extrude: ExtrudeOptions | undefined,
+  options: FitBoundsOptions = {}
+): FitBoundsOptions {
+  return { pitch: extrude?.pitch ?? DEFAULT_EXTRUSION_PITCH, ...options };
+}
@@ -1,8 +1,41 @@
-import type { Map, AddLayerObject } from 'maplibre-gl';
+import type {
+  Map,
+  AddLayerObject,
+  ExpressionSpecification,
+  FilterSpecification,
+} from 'maplibre-gl';
 import type { GeoJSON, Feature, FeatureCollection, Geometry } from 'geojson';
-import type { AddGeojsonOptions, AddVectorOptions } from './types';
+import type {
+  AddGeojsonOptions,
+  AddVectorOptions,
+  DetectedGeometryType,
+  LayerCategories,
+  LayerClassification,
+  LayerSizing,
+} from './types';
 import { generateLayerId, generateSourceId } from '../utils';
-import { storeLayerInfo } from './registry';
+import { setLayerData, storeLayerInfo } from './registry';
+import {
+  buildCategoryExpression,
+  buildClassificationExpression,
+  buildSizeExpression,
+  categorizeValues,
+  classifyFeatures,
+  computeSizing,
+  getFeatures,
+  getUniqueValues,
+  isEmptyCollection,
+} from './classify';
+import { buildLabelLayer } from './labels';
+import { bindLayerInteractions } from './popups';
+import { bindClusterZoom, buildClusterLayers, getClusterSourceOptions } from './cluster';
+import { buildHeatmapLayers } from './heatmap';
+import { buildExtrusionPaint, withExtrusionPitch } from './extrusion';
+import { watchSourceBounds } from './bounds';
+import { fitToLayer } from './management';
+import { MapExtendError } from '../utils/validation';
+import { loadGeojson } from '../utils/loader';
+import { resolveBeforeId } from '../basemaps';
 
 /**
  * Detect the primary geometry type from GeoJSON data.
@@ -10,9 +43,7 @@ import { storeLayerInfo } from './registry';
  * @param data - GeoJSON data
  * @returns Detected geometry type
  */
-function detectGeometryType(
-  data: GeoJSON
-): 'Point' | 'LineString' | 'Polygon' | 'Mixed' {
+function detectGeometryType(data: GeoJSON): DetectedGeometryType {
   if (data.type === 'Feature') {
     const geomType = (data as Feature).geometry?.type;
     if (geomType?.includes('Point')) return 'Point';
@@ -67,13 +98,133 @@ function getDefaultLayerType(
   }
 }
 
+/**
+ * Filters selecting the features drawn by each layer of a mixed-geometry composite.
+ * Multi* types are listed too, as MapLibre versions differ in what
+ * ['geometry-type'] returns for them.
+ */
+const GEOMETRY_FILTERS: Record<'fill' | 'line' | 'circle', FilterSpecification> = {
+  fill: ['in', ['geometry-type'], ['literal', ['Polygon', 'MultiPolygon']]],
+  line: ['in', ['geometry-type'], ['literal', ['LineString', 'MultiLineString']]],
+  circle: ['in', ['geometry-type'], ['literal', ['Point', 'MultiPoint']]],
+};
+
+/**
+ * Build paint properties for a GeoJSON layer from the styling options.
+ *
+ * @param layerType - Layer type
+ * @param options - Layer options
+ * @param styling - Data-driven paint values
+ * @returns Paint properties
+ */
+function buildGeojsonPaint(
+  layerType: 'fill' | 'line' | 'circle',
+  options: AddGeojsonOptions,
+  styling: DataStyling = {}
+): Record<string, unknown> {
+  const { color, radius } = styling;
+  let paint: Record<string, unknown> = {};
+
+  if (layerType === 'fill') {
+    paint = {
+      'fill-color': color || options.fillColor || '#3388ff',
+      'fill-opacity': options.fillOpacity ?? options.opacity ?? 0.5,
+    };
+    if (options.lineColor) {
+      paint['fill-outline-color'] = options.lineColor;
+    }
+  } else if (layerType === 'line') {
+    paint = {
+      'line-color': color || options.lineColor || '#3388ff',
+      'line-width': options.lineWidth ?? 2,
+      'line-opacity': options.opacity ?? 1,
+    };
+  } else if (layerType === 'circle') {
+    paint = {
+      'circle-color': color || options.circleColor || '#3388ff',
+      'circle-radius': radius ?? options.circleRadius ?? 6,
+      'circle-opacity': options.opacity ?? 1,
+      'circle-stroke-color': options.circleStrokeColor || '#ffffff',
+      'circle-stroke-width': options.circleStrokeWidth ?? 1,
+    };
+  }
+
+  // Override with custom paint properties that apply to this layer type
+  if (options.paint) {
+    Object.entries(options.paint).forEach(([key, value]) => {
+      // fill-extrusion-* properties belong to extrusions, not fills
+      if (key.startsWith(`${layerType}-`) && !key.startsWith('fill-extrusion-')) {
+        paint[key] = value;
+      }
+    });
+  }
+
+  return paint;
+}
+
+/**
+ * Data-driven paint values resolved from the styling options, with the
+ * classes, categories and size extents they were built from.
+ */
+export interface DataStyling {
+  /** Color replacing the fill, line or circle color */
+  color?: ExpressionSpecification;
+  /** Circle radius replacing circleRadius */
+  radius?: ExpressionSpecification;
+  classification?: LayerClassification;
+  categories?: LayerCategories;
+  sizing?: LayerSizing;
+}
+
+/**
+ * Resolve data-driven paint values from the choropleth, categorical and
+ * sizing options. Empty feature collections only get categories with explicit values.
+ *
+ * @param data - GeoJSON data
+ * @param options - Layer options
+ * @returns Data-driven paint values
+ * @throws MapExtendError if the styling options are invalid
+ */
+export function resolveDataStyling(data: GeoJSON, options: AddGeojsonOptions): DataStyling {
+  if (options.style && options.categorize) {
+    throw new MapExtendError(
+      'The style and categorize options cannot be combined',
+      'INVALID_STYLE',
+      { style: options.style, categorize: options.categorize }
+    );
+  }
+
+  const styling: DataStyling = {};
+  // Breaks, categories and size extents of empty layers are computed once features arrive
+  const isEmpty = isEmptyCollection(data);
+
+  if (options.style && !isEmpty) {
+    styling.classification = classifyFeatures(data, options.style);
+    styling.color = buildClassificationExpression(styling.classification);
+  } else if (options.categorize && (!isEmpty || options.categorize.values)) {
+    const { column, values } = options.categorize;
+    styling.categories = categorizeValues(
+      values ?? getUniqueValues(getFeatures(data), column),
+      options.categorize
+    );
+    styling.color = buildCategoryExpression(styling.categories);
+  }
+
+  if (options.sizeBy && !isEmpty) {
+    styling.sizing = computeSizing(data, options.sizeBy);
+    styling.radius = buildSizeExpression(styling.sizing, options.sizeBy.zoomScaling);
+  }
+
+  return styling;
+}
+
 /**
  * Calculate bounding box from GeoJSON data.
  *
  * @param data - GeoJSON data
  * @returns Bounding box [west, south, east, north] or null
  */
-function calculateBbox(
+export function calculateBbox(
   data: GeoJSON
 ): [number, number, number, number] | null {
   try {
@@ -137,6 +288,126 @@ function calculateBbox(
   }
 }
 
+/**
+ * Layers planned for GeoJSON data, with the styling and geometry type they were built from.
+ */
+export interface GeojsonLayerPlan {
+  /** Layer specifications in stacking order; the first one takes the layer ID */
+  layers: AddLayerObject[];
+  styling: DataStyling;
+  geometryType: DetectedGeometryType;
+}
+
+/**
+ * Build the layers drawing GeoJSON data without touching the map, so invalid
+ * options leave no source behind.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param sourceId - GeoJSON source ID
+ * @param geojsonData - GeoJSON data
+ * @param options - Layer options
+ * @returns Planned layers
+ * @throws MapExtendError if the styling, label, cluster, heatmap or extrusion options are invalid
+ */
+export function buildGeojsonLayers(
+  map: Map,
+  layerId: string,
+  sourceId: string,
+  geojsonData: GeoJSON,
+  options: AddGeojsonOptions
+): GeojsonLayerPlan {
+  // Detect geometry type and layer type
+  const geometryType = detectGeometryType(geojsonData);
+  // Empty collections are filled later (e.g., by a live feed), so any geometry type fits
+  const isEmpty = isEmptyCollection(geojsonData);
+
+  // Heatmaps and extrusions are labelled like the points and polygons they draw
+  const isHeatmap = options.type === 'heatmap';
+  const isExtrusion = options.type === 'fill-extrusion';
+  const type =
+    options.type === 'heatmap'
+      ? 'circle'
+      : options.type === 'fill-extrusion'
+        ? 'fill'
+        : (options.type ?? (options.cluster ? 'circle' : undefined));
+
+  // Mixed data without an explicit type gets one layer per geometry type
+  const layerTypes: ('fill' | 'line' | 'circle')[] =
+    type || geometryType !== 'Mixed'
+      ? [type || getDefaultLayerType(geometryType)]
+      : ['fill', 'line', 'circle'];
+  const isComposite = layerTypes.length > 1;
+
+  if (options.cluster && !isEmpty && geometryType !== 'Point') {
+    throw new MapExtendError(
+      `Clustering requires point data, got ${geometryType} geometries`,
+      'INVALID_CLUSTER',
+      { geometryType }
+    );
+  }
+  if (isHeatmap && ((!isEmpty && geometryType !== 'Point') || options.cluster)) {
+    throw new MapExtendError(
+      options.cluster
+        ? 'Heatmaps cannot be combined with clustering'
+        : `Heatmaps require point data, got ${geometryType} geometries`,
+      'INVALID_HEATMAP',
+      { geometryType }
+    );
+  }
+  if (isExtrusion && !isEmpty && geometryType !== 'Polygon') {
+    throw new MapExtendError(
+      `Extrusions require polygon data, got ${geometryType} geometries`,
+      'INVALID_EXTRUSION',
+      { geometryType }
+    );
+  }
+
+  const styling = resolveDataStyling(geojsonData, options);
+
+  // The first layer takes the layer ID, the others are sublayers
+  let layers: AddLayerObject[];
+  if (options.cluster) {
+    const pointPaint = buildGeojsonPaint('circle', options, styling);
+    layers = buildClusterLayers(map, layerId, sourceId, options.cluster, pointPaint);
+  } else if (isHeatmap) {
+    const pointPaint = buildGeojsonPaint('circle', options, styling);
+    layers = buildHeatmapLayers(layerId, sourceId, geojsonData, options, pointPaint);
+  } else if (isExtrusion) {
+    const paint = buildExtrusionPaint(
+      options.extrude,
+      styling.color || options.fillColor || '#3388ff',
+      options.fillOpacity ?? options.opacity ?? 0.8,
+      geojsonData
+    );
+    // Override with custom extrusion paint properties
+    Object.entries(options.paint || {}).forEach(([key, value]) => {
+      if (key.startsWith('fill-extrusion-')) {
+        paint[key] = value;
+      }
+    });
+    layers = [{ id: layerId, type: 'fill-extrusion', source: sourceId, paint } as AddLayerObject];
+  } else {
+    layers = layerTypes.map(
+      (layerType, i) =>
+        ({
+          id: i === 0 ? layerId : `${layerId}-${layerType}`,
+          type: layerType,
+          source: sourceId,
+          paint: buildGeojsonPaint(layerType, options, styling),
+          ...(isComposite && { filter: GEOMETRY_FILTERS[layerType] }),
+        }) as AddLayerObject
+    );
+  }
+
+  // Labels go on top of the layers they label
+  if (options.label) {
+    layers.push(buildLabelLayer(map, layerId, sourceId, layerTypes[0], options.label));
+  }
+
+  return { layers, styling, geometryType };
+}
+
 /**
  * Add GeoJSON data to the map.
  *
@@ -144,6 +415,15 @@ function calculateBbox(
  * @param data - GeoJSON data (object or URL string)
  * @param options - Layer options
  * @returns The layer ID
+ * @throws MapExtendError if the data cannot be loaded (e.g., HTTP_404, INVALID_GEOJSON),
+ * or the styling, label, cluster, heatmap or extrusion options are invalid
+ *
+ * @example
+ * ```ts
+ * await map.addGeojson(countries, {
+ *   style: { column: 'pop_est', scheme: 'jenks', classes: 5, colormap: 'ylorrd' },
+ * });
+ * ```
  */
 export async function addGeojson(
   map: Map,
@@ -153,89 +433,75 @@ export async function addGeojson(
   const sourceId = options.sourceId || generateSourceId('geojson');
   const layerId = options.layerId || generateLayerId('geojson');
 
-  // Fetch data if URL provided
-  let geojsonData: GeoJSON;
-  if (typeof data === 'string') {
-    const response = await fetch(data);
-    geojsonData = await response.json();
-  } else {
-    geojsonData = data;
-  }
+  // Load data if URL provided
+  const geojsonData =
+    typeof data === 'string' ? await loadGeojson(data, options.loadOptions) : data;
 
-  // Detect geometry type and layer type
-  const geometryType = detectGeometryType(geojsonData);
-  const layerType = options.type || getDefaultLayerType(geometryType);
+  const { layers, styling, geometryType } = buildGeojsonLayers(
+    map,
+    layerId,
+    sourceId,
+    geojsonData,
+    options
+  );
 
   // Add source
   map.addSource(sourceId, {
     type: 'geojson',
     data: geojsonData,
+    ...(options.cluster && getClusterSourceOptions(options.cluster)),
   });
 
-  // Build paint properties based on layer type and options
-  let paint: Record<string, unknown> = {};
-
-  if (layerType === 'fill') {
-    paint = {
-      'fill-color': options.fillColor || '#3388ff',
-      'fill-opacity': options.fillOpacity ?? options.opacity ?? 0.5,
-    };
-    if (options.lineColor) {
-      paint['fill-outline-color'] = options.lineColor;
-    }
-  } else if (layerType === 'line') {
-    paint = {
-      'line-color': options.lineColor || '#3388ff',
-      'line-width': options.lineWidth ?? 2,
-      'line-opacity': options.opacity ?? 1,
-    };
-  } else if (layerType === 'circle') {
-    paint = {
-      'circle-color': options.circleColor || '#3388ff',
-      'circle-radius': options.circleRadius ?? 6,
-      'circle-opacity': options.opacity ?? 1,
-      'circle-stroke-color': options.circleStrokeColor || '#ffffff',
-      'circle-stroke-width': options.circleStrokeWidth ?? 1,
-    };
-  }
+  const beforeId = resolveBeforeId(map, options.beforeId);
+  layers.forEach((layer) => {
+    // Zoom ranges of the layers themselves (e.g., heatmap circles) take precedence
+    map.addLayer(
+      { minzoom: options.minzoom, maxzoom: options.maxzoom, ...layer } as AddLayerObject,
+      beforeId
+    );
+  });
 
-  // Override with custom paint if provided
-  if (options.paint) {
-    paint = { ...paint, ...options.paint };
+  // Fit bounds if requested
+  const bbox = calculateBbox(geojsonData);
+  if (options.fitBounds && bbox) {
+    map.fitBounds(
+      [
+        [bbox[0], bbox[1]],
+        [bbox[2], bbox[3]],
+      ],
+      {
+        padding: 50,
+        ...(options.type === 'fill-extrusion'
+          ? withExtrusionPitch(options.extrude, options.fitBoundsOptions)
+          : options.fitBoundsOptions),
+      }
+    );
   }
 
-  // Add layer
-  map.addLayer(
+  // Store layer info and data for management and updates
+  storeLayerInfo(
+    map,
+    layerId,
+    sourceId,
+    'geojson',
+    options as Record<string, unknown>,
     {
-      id: layerId,
-      type: layerType,
-      source: sourceId,
-      paint,
-      minzoom: options.minzoom,
-      maxzoom: options.maxzoom,
-    } as AddLayerObject,
-    options.beforeId
+      sublayers: layers.slice(1).map((layer) => layer.id),
+      classification: styling.classification,
+      categories: styling.categories,
+      sizing: styling.sizing,
+      bounds: bbox ?? undefined,
+      geometryType,
+    }
   );
+  setLayerData(map, layerId, geojsonData);
 
-  // Fit bounds if requested
-  if (options.fitBounds) {
-    const bbox = calculateBbox(geojsonData);
-    if (bbox) {
-      map.fitBounds(
-        [
-          [bbox[0], bbox[1]],
-          [bbox[2], bbox[3]],
-        ],
-        {
-          padding: 50,
-          ...options.fitBoundsOptions,
-        }
-      );
-    }
+  if (options.cluster) {
+    bindClusterZoom(map, layerId, sourceId);
+  }
+  if (options.popup || options.tooltip) {
+    bindLayerInteractions(map, layerId, options);
   }
-
-  // Store layer info for management
-  storeLayerInfo(map, layerId, sourceId, 'geojson', options as Record<string, unknown>);
 
   return layerId;
 }
@@ -247,6 +513,16 @@ export async function addGeojson(
  * @param url - URL to vector tiles (PMTiles, MVT, etc.)
  * @param options - Layer options
  * @returns The layer ID
+ * @throws MapExtendError if the categorical style has no values, the extrusion options are
+ * invalid or labels cannot be added
+ *
+ * @example
+ * ```ts
+ * map.addVector('https://example.com/landuse.pmtiles', {
+ *   sourceLayer: 'landuse',
+ *   categorize: { column: 'class', colors: { forest: '#228b22', water: '#1e90ff' } },
+ * });
+ * ```
  */
 export function addVector(
   map: Map,
@@ -256,6 +532,28 @@ export function addVector(
   const sourceId = options.sourceId || generateSourceId('vector');
   const layerId = options.layerId || generateLayerId('vector');
   const layerType = options.type || 'fill';
+  // Extrusions are labelled like polygons
+  const labelType = layerType === 'fill-extrusion' ? 'fill' : layerType;
+
+  // Vector tiles cannot be scanned, so categories come from the options
+  const categories = options.categorize
+    ? categorizeValues(
+        options.categorize.values ?? Object.keys(options.categorize.colors || {}),
+        options.categorize
+      )
+    : undefined;
+  const color = categories && buildCategoryExpression(categories);
+  const labelLayer =
+    options.label &&
+    buildLabelLayer(map, layerId, sourceId, labelType, options.label, options.sourceLayer || '');
+  const extrusionPaint =
+    layerType === 'fill-extrusion'
+      ? buildExtrusionPaint(
+          options.extrude,
+          color || options.fillColor || '#3388ff',
+          options.opacity ?? 0.8
+        )
+      : undefined;
 
   // Determine source type based on URL
   const isPMTiles = url.endsWith('.pmtiles');
@@ -274,6 +572,7 @@ export function addVector(
       minzoom: options.minzoom,
       maxzoom: options.maxzoom,
       attribution: options.attribution,
+      bounds: options.bounds,
     });
   }
 
@@ -282,24 +581,27 @@ export function addVector(
 
   if (layerType === 'fill') {
     paint = {
-      'fill-color': options.fillColor || '#3388ff',
+      'fill-color': color || options.fillColor || '#3388ff',
       'fill-opacity': options.opacity ?? 0.5,
     };
   } else if (layerType === 'line') {
     paint = {
-      'line-color': options.lineColor || '#3388ff',
+      'line-color': color || options.lineColor || '#3388ff',
       'line-width': options.lineWidth ?? 2,
       'line-opacity': options.opacity ?? 1,
     };
   } else if (layerType === 'circle') {
     paint = {
-      'circle-color': options.circleColor || '#3388ff',
+      'circle-color': color || options.circleColor || '#3388ff',
       'circle-radius': options.circleRadius ?? 6,
       'circle-opacity': options.opacity ?? 1,
     };
+  } else if (extrusionPaint) {
+    paint = extrusionPaint;
   }
 
   // Add layer
+  const beforeId = resolveBeforeId(map, options.beforeId);
   map.addLayer(
     {
       id: layerId,
@@ -310,11 +612,39 @@ export function addVector(
       minzoom: options.minzoom,
       maxzoom: options.maxzoom,
     } as AddLayerObject,
-    options.beforeId
+    beforeId
   );
 
+  if (labelLayer) {
+    map.addLayer(
+      { ...labelLayer, minzoom: options.minzoom, maxzoom: options.maxzoom } as AddLayerObject,
+      beforeId
+    );
+  }
+
   // Store layer info
-  storeLayerInfo(map, layerId, sourceId, 'vector', options as Record<string, unknown>);
+  storeLayerInfo(map, layerId, sourceId, 'vector', options as Record<string, unknown>, {
+    sublayers: labelLayer ? [labelLayer.id] : [],
+    categories,
+    bounds: options.bounds,
+  });
+
+  // Without bounds in the options, use those of the TileJSON or PMTiles header once loaded
+  const fitBoundsOptions =
+    options.type === 'fill-extrusion'
+      ? withExtrusionPitch(options.extrude, options.fitBoundsOptions)
+      : options.fitBoundsOptions;
+  if (options.bounds) {
+    if (options.fitBounds) fitToLayer(map, layerId, fitBoundsOptions);
+  } else {
+    watchSourceBounds(map, layerId, sourceId, () => {
+      if (options.fitBounds) fitToLayer(map, layerId, fitBoundsOptions);
+    });
+  }
+
+  if (options.popup || options.tooltip) {
+    bindLayerInteractions(map, layerId, options);
+  }
 
   return layerId;
 }
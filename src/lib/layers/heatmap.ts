@@ -0,0 +1,123 @@
+import type { AddLayerObject, ExpressionSpecification } from 'maplibre-gl';
+import type { GeoJSON } from 'geojson';
+import type { AddGeojsonOptions, HeatmapOptions } from './types';
+import { getFeatures, getNumericValues, isEmptyCollection } from './classify';
+import { sampleColormap } from './colormaps';
+import { MapExtendError } from '../utils/validation';
+
+/**
+ * Number of colors sampled from a colormap for the heatmap color ramp.
+ */
+const RAMP_STEPS = 5;
+
+/**
+ * Build the heatmap weight expression, scaling a property to 0-1 over its extents.
+ *
+ * @param data - GeoJSON data
+ * @param column - Weight property
+ * @returns Weight expression
+ * @throws MapExtendError if the property has no numeric values
+ */
+function buildWeightExpression(data: GeoJSON, column: string): ExpressionSpecification | number {
+  // Empty layers are restyled from the data once features arrive
+  if (isEmptyCollection(data)) return 1;
+  const values = getNumericValues(getFeatures(data), column);
+  if (values.length === 0) {
+    throw new MapExtendError(
+      `No numeric values found for heatmap weight ${column}`,
+      'INVALID_HEATMAP',
+      { column }
+    );
+  }
+
+  const [min, max] = [values[0], values[values.length - 1]];
+  if (min === max) return 1;
+  return ['interpolate', ['linear'], ['to-number', ['get', column], min], min, 0, max, 1];
+}
+
+/**
+ * Build the heatmap color ramp. Colormaps fade in from transparent at zero density.
+ *
+ * @param colors - Colormap name or [density, color] stops
+ * @returns heatmap-color expression
+ * @throws MapExtendError if the colormap is unknown
+ */
+function buildColorRamp(colors: NonNullable<HeatmapOptions['colors']>): ExpressionSpecification {
+  const stops: [number, string][] =
+    typeof colors === 'string'
+      ? [
+          [0, 'rgba(0, 0, 0, 0)'],
+          ...Array.from({ length: RAMP_STEPS }, (_, i): [number, string] => [
+            (i + 1) / RAMP_STEPS,
+            sampleColormap(colors, i / (RAMP_STEPS - 1)),
+          ]),
+        ]
+      : colors;
+
+  return [
+    'interpolate',
+    ['linear'],
+    ['heatmap-density'],
+    ...stops.flat(),
+  ] as ExpressionSpecification;
+}
+
+/**
+ * Build the layers of a heatmap: the heatmap (with the layer ID) and, with
+ * `circleZoom`, circles (`<layerId>-points`) replacing it from that zoom on.
+ *
+ * @param layerId - Layer ID
+ * @param sourceId - GeoJSON source ID
+ * @param data - GeoJSON data
+ * @param options - Layer options
+ * @param pointPaint - Paint properties of the circles
+ * @returns Layer specifications in stacking order
+ * @throws MapExtendError if the weight property has no values or the colormap is unknown
+ */
+export function buildHeatmapLayers(
+  layerId: string,
+  sourceId: string,
+  data: GeoJSON,
+  options: AddGeojsonOptions,
+  pointPaint: Record<string, unknown>
+): AddLayerObject[] {
+  const heatmap = options.heatmap || {};
+  const paint: Record<string, unknown> = {
+    'heatmap-weight': heatmap.weight ? buildWeightExpression(data, heatmap.weight) : 1,
+    'heatmap-radius': heatmap.radius ?? 20,
+    'heatmap-intensity': heatmap.intensity ?? 1,
+    'heatmap-opacity': options.opacity ?? 1,
+  };
+  if (heatmap.colors) {
+    paint['heatmap-color'] = buildColorRamp(heatmap.colors);
+  }
+
+  // Override with custom heatmap paint properties
+  Object.entries(options.paint || {}).forEach(([key, value]) => {
+    if (key.startsWith('heatmap-')) {
+      paint[key] = value;
+    }
+  });
+
+  const layers = [
+    {
+      id: layerId,
+      type: 'heatmap',
+      source: sourceId,
+      paint,
+      ...(heatmap.circleZoom !== undefined && { maxzoom: heatmap.circleZoom }),
+    },
+  ] as AddLayerObject[];
+
+  if (heatmap.circleZoom !== undefined) {
+    layers.push({
+      id: `${layerId}-points`,
+      type: 'circle',
+      source: sourceId,
+      minzoom: heatmap.circleZoom,
+      paint: pointPaint,
+    } as AddLayerObject);
+  }
+
+  return layers;
+}
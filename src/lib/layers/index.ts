@@ -5,10 +5,31 @@ export type {
   AddWmsOptions,
   AddVectorOptions,
   LayerInfo,
+  ChoroplethOptions,
+  ClassificationScheme,
+  LayerClassification,
+  CategorizeOptions,
+  LayerCategories,
+  SizeByOptions,
+  SizeScale,
+  LayerSizing,
+  LabelOptions,
+  PopupContent,
+  ClusterOptions,
+  HeatmapOptions,
+  ExtrudeOptions,
+  ExtrusionColorOptions,
+  DetectedGeometryType,
+  AppendFeaturesOptions,
+  AddCsvOptions,
+  AddCsvResult,
+  CsvInvalidRow,
 } from './types';
+export type { ColormapName, PaletteName } from './colormaps';
 
 export { addGeojson, addVector } from './geojson';
 export { addRaster, addCogLayer, addWmsLayer } from './raster';
+export { getColormapColors, getPaletteColors } from './colormaps';
 export {
   removeLayerById,
   getLayerInfo,
@@ -18,4 +39,13 @@ export {
   bringLayerToFront,
   sendLayerToBack,
   fitToLayer,
+  getLayerBounds,
 } from './management';
+export { setLayerPopup, setLayerTooltip } from './popups';
+export { updateGeojson, appendFeatures, removeFeatures } from './updates';
+export { addCsv } from './csv';
+export {
+  setRestoreOnStyleChange,
+  isRestoreOnStyleChangeEnabled,
+  withStyleRestore,
+} from './restore';
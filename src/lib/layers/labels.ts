@@ -0,0 +1,131 @@
+import type { Map, AddLayerObject, ExpressionSpecification } from 'maplibre-gl';
+import type { LabelOptions } from './types';
+import { MapExtendError } from '../utils/validation';
+
+/**
+ * Glyphs configured for labels when the style has none.
+ */
+export const DEFAULT_GLYPHS_URL = 'https://demotiles.maplibre.org/font/{fontstack}/{range}.pbf';
+
+/**
+ * Font used with the default glyphs.
+ */
+const DEFAULT_FONT = ['Open Sans Semibold'];
+
+/**
+ * Geometry types labelled below their point instead of on it.
+ */
+const POINT_TYPES = ['Point', 'MultiPoint'];
+
+/**
+ * Make sure the style has a glyphs URL, which symbol layers need to render text.
+ *
+ * @param map - MapLibre map instance
+ * @param url - Glyphs URL to configure when the style has none
+ * @returns True if the glyphs URL was configured by this call
+ * @throws MapExtendError if the glyphs URL cannot be set
+ */
+export function ensureGlyphs(map: Map, url: string = DEFAULT_GLYPHS_URL): boolean {
+  if (map.getGlyphs()) return false;
+
+  try {
+    map.setGlyphs(url);
+  } catch (error) {
+    throw new MapExtendError(
+      `Labels need a glyphs URL, and ${url} could not be set on the style`,
+      'GLYPHS_UNAVAILABLE',
+      { url, error }
+    );
+  }
+  return true;
+}
+
+/**
+ * Find the font of the first symbol layer in the style, which is known to
+ * exist on the style's glyph server.
+ *
+ * @param map - MapLibre map instance
+ * @returns Font stack or undefined
+ */
+function findStyleFont(map: Map): string[] | undefined {
+  for (const layer of map.getStyle()?.layers || []) {
+    const font = layer.type === 'symbol' ? layer.layout?.['text-font'] : undefined;
+    if (Array.isArray(font) && font.every((name) => typeof name === 'string')) {
+      return font as string[];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the font of a text layer, configuring glyphs when the style has none.
+ *
+ * @param map - MapLibre map instance
+ * @param font - Requested font stack
+ * @param glyphs - Glyphs URL to configure when the style has none
+ * @returns Font stack: the requested one, the style's label font, or the default font
+ * @throws MapExtendError if the glyphs URL cannot be set
+ */
+export function resolveTextFont(map: Map, font?: string[], glyphs?: string): string[] {
+  const configured = ensureGlyphs(map, glyphs);
+  return font ?? (configured ? DEFAULT_FONT : findStyleFont(map) ?? DEFAULT_FONT);
+}
+
+/**
+ * Build the symbol layer labelling the features of a layer. Lines are labelled
+ * along the line, polygons at their visual center and points just below the point.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - ID of the labelled layer
+ * @param sourceId - Source ID
+ * @param layerType - Type of the labelled layer
+ * @param label - Label options
+ * @param sourceLayer - Source layer for vector tiles
+ * @returns Symbol layer specification with the ID `<layerId>-label`
+ * @throws MapExtendError if the label has no field or expression, or glyphs are unavailable
+ */
+export function buildLabelLayer(
+  map: Map,
+  layerId: string,
+  sourceId: string,
+  layerType: 'fill' | 'line' | 'circle',
+  label: LabelOptions,
+  sourceLayer?: string
+): AddLayerObject {
+  if (!label.field && !label.expression) {
+    throw new MapExtendError(
+      'Labels need a field or an expression',
+      'INVALID_LABEL',
+      { layerId, label }
+    );
+  }
+
+  const font = resolveTextFont(map, label.font, label.glyphs);
+  const placement = label.placement ?? (layerType === 'line' ? 'line' : 'point');
+  const isPoint = ['in', ['geometry-type'], ['literal', POINT_TYPES]];
+
+  const layout: Record<string, unknown> = {
+    'text-field': label.expression ?? (['get', label.field] as ExpressionSpecification),
+    'text-font': font,
+    'text-size': label.size ?? 12,
+    'symbol-placement': placement,
+    'text-allow-overlap': label.allowOverlap ?? false,
+  };
+  if (placement === 'point') {
+    layout['text-anchor'] = ['case', isPoint, 'top', 'center'];
+    layout['text-offset'] = ['case', isPoint, ['literal', [0, 0.6]], ['literal', [0, 0]]];
+  }
+
+  return {
+    id: `${layerId}-label`,
+    type: 'symbol',
+    source: sourceId,
+    ...(sourceLayer !== undefined && { 'source-layer': sourceLayer }),
+    layout,
+    paint: {
+      'text-color': label.color || '#333333',
+      'text-halo-color': label.haloColor || '#ffffff',
+      'text-halo-width': label.haloWidth ?? 1,
+    },
+  } as AddLayerObject;
+}
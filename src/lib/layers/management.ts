@@ -6,11 +6,16 @@ import {
   updateLayerOpacity,
   getAllCustomLayers as getAllLayersFromRegistry,
   getLayerInfoById,
+  getStyleLayerIds,
 } from './registry';
+import { unbindLayerInteractions } from './popups';
+import { unbindClusterZoom } from './cluster';
+import { unwatchSourceBounds } from './bounds';
 import { clamp } from '../utils';
+import { getBasemapOverlay, isBasemapLayer, OVERLAY_LAYER_ID } from '../basemaps';
 
 /**
- * Remove a layer and its source by layer ID.
+ * Remove a layer, its sublayers and its source by layer ID.
  *
  * @param map - MapLibre map instance
  * @param layerId - Layer ID to remove
@@ -19,10 +24,12 @@ import { clamp } from '../utils';
 export function removeLayerById(map: Map, layerId: string): Map {
   const layerInfo = getLayerInfoById(map, layerId);
 
-  // Remove the layer
-  if (map.getLayer(layerId)) {
-    map.removeLayer(layerId);
-  }
+  // Remove the layer and its sublayers
+  getStyleLayerIds(map, layerId).forEach((id) => {
+    if (map.getLayer(id)) {
+      map.removeLayer(id);
+    }
+  });
 
   // Remove the source if we have info about it
   if (layerInfo && map.getSource(layerInfo.sourceId)) {
@@ -37,7 +44,10 @@ export function removeLayerById(map: Map, layerId: string): Map {
     }
   }
 
-  // Remove from registry
+  // Remove popup, tooltip, cluster and bounds handlers, then the registry entry
+  unbindLayerInteractions(map, layerId);
+  unbindClusterZoom(map, layerId);
+  unwatchSourceBounds(map, layerId);
   removeLayerInfo(map, layerId);
 
   return map;
@@ -65,7 +75,7 @@ export function getAllCustomLayers(map: Map): LayerInfo[] {
 }
 
 /**
- * Set layer visibility.
+ * Set layer visibility, including sublayers.
  *
  * @param map - MapLibre map instance
  * @param layerId - Layer ID
@@ -78,14 +88,56 @@ export function setLayerVisibility(
   visible: boolean
 ): Map {
   if (map.getLayer(layerId)) {
-    map.setLayoutProperty(layerId, 'visibility', visible ? 'visible' : 'none');
+    getStyleLayerIds(map, layerId).forEach((id) => {
+      if (map.getLayer(id)) {
+        map.setLayoutProperty(id, 'visibility', visible ? 'visible' : 'none');
+      }
+    });
     updateLayerVisibility(map, layerId, visible);
   }
   return map;
 }
 
 /**
- * Set layer opacity.
+ * Set the opacity paint property matching a style layer's type.
+ *
+ * @param map - MapLibre map instance
+ * @param id - Style layer ID
+ * @param opacity - Opacity value (0-1)
+ */
+function applyOpacity(map: Map, id: string, opacity: number): void {
+  const layer = map.getLayer(id);
+  if (!layer) return;
+
+  // Set appropriate opacity property based on layer type
+  switch (layer.type) {
+    case 'fill':
+      map.setPaintProperty(id, 'fill-opacity', opacity);
+      break;
+    case 'line':
+      map.setPaintProperty(id, 'line-opacity', opacity);
+      break;
+    case 'circle':
+      map.setPaintProperty(id, 'circle-opacity', opacity);
+      break;
+    case 'raster':
+      map.setPaintProperty(id, 'raster-opacity', opacity);
+      break;
+    case 'heatmap':
+      map.setPaintProperty(id, 'heatmap-opacity', opacity);
+      break;
+    case 'fill-extrusion':
+      map.setPaintProperty(id, 'fill-extrusion-opacity', opacity);
+      break;
+    case 'symbol':
+      map.setPaintProperty(id, 'icon-opacity', opacity);
+      map.setPaintProperty(id, 'text-opacity', opacity);
+      break;
+  }
+}
+
+/**
+ * Set layer opacity, including sublayers.
  *
  * @param map - MapLibre map instance
  * @param layerId - Layer ID
@@ -98,31 +150,9 @@ export function setLayerOpacity(
   opacity: number
 ): Map {
   const clampedOpacity = clamp(opacity, 0, 1);
-  const layer = map.getLayer(layerId);
-
-  if (layer) {
-    const layerType = layer.type;
-
-    // Set appropriate opacity property based on layer type
-    switch (layerType) {
-      case 'fill':
-        map.setPaintProperty(layerId, 'fill-opacity', clampedOpacity);
-        break;
-      case 'line':
-        map.setPaintProperty(layerId, 'line-opacity', clampedOpacity);
-        break;
-      case 'circle':
-        map.setPaintProperty(layerId, 'circle-opacity', clampedOpacity);
-        break;
-      case 'raster':
-        map.setPaintProperty(layerId, 'raster-opacity', clampedOpacity);
-        break;
-      case 'symbol':
-        map.setPaintProperty(layerId, 'icon-opacity', clampedOpacity);
-        map.setPaintProperty(layerId, 'text-opacity', clampedOpacity);
-        break;
-    }
 
+  if (map.getLayer(layerId)) {
+    getStyleLayerIds(map, layerId).forEach((id) => applyOpacity(map, id, clampedOpacity));
     updateLayerOpacity(map, layerId, clampedOpacity);
   }
 
@@ -130,7 +160,7 @@ export function setLayerOpacity(
 }
 
 /**
- * Move a layer to the front (top of the layer stack).
+ * Move a layer to the front (top of the layer stack, but below the basemap overlay).
  *
  * @param map - MapLibre map instance
  * @param layerId - Layer ID
@@ -138,7 +168,14 @@ export function setLayerOpacity(
  */
 export function bringLayerToFront(map: Map, layerId: string): Map {
   if (map.getLayer(layerId)) {
-    map.moveLayer(layerId);
+    // Keep the basemap overlay (labels) above all custom layers
+    const beforeId =
+      getBasemapOverlay(map) && layerId !== OVERLAY_LAYER_ID ? OVERLAY_LAYER_ID : undefined;
+    getStyleLayerIds(map, layerId).forEach((id) => {
+      if (map.getLayer(id)) {
+        map.moveLayer(id, beforeId);
+      }
+    });
   }
   return map;
 }
@@ -152,17 +189,25 @@ export function bringLayerToFront(map: Map, layerId: string): Map {
  */
 export function sendLayerToBack(map: Map, layerId: string): Map {
   if (map.getLayer(layerId)) {
+    const ids = getStyleLayerIds(map, layerId);
     const layers = map.getStyle()?.layers || [];
     // Find the first non-basemap layer
-    const basemapLayerId = '__maplibre-extend-basemap-layer';
     const firstNonBasemapIndex = layers.findIndex(
-      (l) => l.id !== basemapLayerId
+      (l) => !isBasemapLayer(l.id)
     );
 
     if (firstNonBasemapIndex > 0) {
       const beforeId = layers[firstNonBasemapIndex].id;
       if (beforeId !== layerId) {
-        map.moveLayer(layerId, beforeId);
+        // Move the layer and its sublayers together, keeping their order
+        const target = layers.slice(firstNonBasemapIndex).find((l) => !ids.includes(l.id))?.id;
+        if (target) {
+          ids.forEach((id) => {
+            if (map.getLayer(id)) {
+              map.moveLayer(id, target);
+            }
+          });
+        }
       }
     }
   }
@@ -170,10 +215,25 @@ export function sendLayerToBack(map: Map, layerId: string): Map {
 }
 
 /**
- * Fit the map bounds to a layer's extent.
+ * Get the extent of a layer: computed from GeoJSON data, read from TileJSON,
+ * PMTiles headers or COG metadata, or given in the layer options.
  *
- * Note: This works best with GeoJSON layers. For raster/WMS layers,
- * you should provide bounds in the layer options.
+ * Bounds loaded asynchronously (vector tiles, COGs) are null until loaded.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @returns Bounds [west, south, east, north] or null
+ */
+export function getLayerBounds(
+  map: Map,
+  layerId: string
+): [number, number, number, number] | null {
+  return getLayerInfoById(map, layerId)?.bounds ?? null;
+}
+
+/**
+ * Fit the map bounds to a layer's extent. Does nothing if the extent is unknown
+ * (see {@link getLayerBounds}).
  *
  * @param map - MapLibre map instance
  * @param layerId - Layer ID
@@ -185,30 +245,15 @@ export function fitToLayer(
   layerId: string,
   options?: FitBoundsOptions
 ): Map {
-  const layerInfo = getLayerInfoById(map, layerId);
-
-  if (layerInfo) {
-    // Check if bounds were stored in options
-    const storedBounds = layerInfo.options.bounds as
-      | [number, number, number, number]
-      | undefined;
-    if (storedBounds) {
-      map.fitBounds(
-        [
-          [storedBounds[0], storedBounds[1]],
-          [storedBounds[2], storedBounds[3]],
-        ],
-        { padding: 50, ...options }
-      );
-      return map;
-    }
-
-    // For GeoJSON sources, calculate bounds from data
-    const source = map.getSource(layerInfo.sourceId);
-    if (source && source.type === 'geojson') {
-      // GeoJSON source - we can't easily get bounds without accessing internal data
-      // This is a limitation; users should use fitBounds: true when adding the layer
-    }
+  const bounds = getLayerBounds(map, layerId);
+  if (bounds) {
+    map.fitBounds(
+      [
+        [bounds[0], bounds[1]],
+        [bounds[2], bounds[3]],
+      ],
+      { padding: 50, ...options }
+    );
   }
 
   return map;
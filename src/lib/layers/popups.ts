@@ -0,0 +1,260 @@
+import { Popup } from 'maplibre-gl';
+import type { Map, MapGeoJSONFeature, MapLayerMouseEvent } from 'maplibre-gl';
+import type { PopupContent } from './types';
+import { getLayerInfoById, getStyleLayerIds } from './registry';
+import { MapExtendError } from '../utils/validation';
+
+/**
+ * Popup and tooltip handlers bound to a managed layer.
+ */
+interface LayerInteraction {
+  /** Style layer IDs the handlers listen on */
+  layerIds: string[];
+  popup?: PopupContent;
+  tooltip?: PopupContent;
+  onClick: (e: MapLayerMouseEvent) => void;
+  onMouseMove: (e: MapLayerMouseEvent) => void;
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+  /** Popup opened by the last click */
+  openPopup: Popup | null;
+  /** Tooltip shown while hovering */
+  tooltipPopup: Popup | null;
+}
+
+// Store for tracking popup and tooltip handlers per map instance and layer
+const interactionsMap = new WeakMap<Map, Record<string, LayerInteraction>>();
+
+const CLASS_PREFIX = 'mgl-extend';
+
+/**
+ * Escape text for use in HTML.
+ *
+ * @param text - Text
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Format a property value for display.
+ *
+ * @param value - Property value
+ * @returns Display text
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Render feature properties as an HTML table.
+ *
+ * @param properties - Feature properties
+ * @param keys - Properties to show, in order (default: all)
+ * @returns HTML table
+ */
+export function renderPropertiesTable(
+  properties: Record<string, unknown>,
+  keys: string[] = Object.keys(properties)
+): string {
+  const rows = keys
+    .map(
+      (key) =>
+        `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(formatValue(properties[key]))}</td></tr>`
+    )
+    .join('');
+  return `<table class="${CLASS_PREFIX}-popup-table">${rows}</table>`;
+}
+
+/**
+ * Render popup or tooltip content for a feature.
+ *
+ * @param content - Popup content option
+ * @param feature - Feature under the pointer
+ * @returns HTML string or element
+ */
+function renderContent(content: PopupContent, feature: MapGeoJSONFeature): string | HTMLElement {
+  const properties = feature.properties || {};
+  if (typeof content === 'function') return content(properties, feature);
+  return renderPropertiesTable(properties, Array.isArray(content) ? content : undefined);
+}
+
+/**
+ * Set the content of a popup.
+ *
+ * @param popup - Popup
+ * @param content - HTML string or element
+ * @returns The popup
+ */
+function setPopupContent(popup: Popup, content: string | HTMLElement): Popup {
+  return typeof content === 'string' ? popup.setHTML(content) : popup.setDOMContent(content);
+}
+
+/**
+ * Remove the popup and tooltip handlers of a layer, and close its popups.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ */
+export function unbindLayerInteractions(map: Map, layerId: string): void {
+  const interactions = interactionsMap.get(map);
+  const interaction = interactions?.[layerId];
+  if (!interactions || !interaction) return;
+
+  const { layerIds } = interaction;
+  map.off('click', layerIds, interaction.onClick);
+  map.off('mousemove', layerIds, interaction.onMouseMove);
+  map.off('mouseenter', layerIds, interaction.onMouseEnter);
+  map.off('mouseleave', layerIds, interaction.onMouseLeave);
+  interaction.openPopup?.remove();
+  interaction.tooltipPopup?.remove();
+  map.getCanvas().style.cursor = '';
+
+  delete interactions[layerId];
+}
+
+/**
+ * Bind a click popup and a hover tooltip to a layer and its sublayers,
+ * replacing handlers bound before. The cursor becomes a pointer over features.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param content - Popup and tooltip content; handlers are only bound for the ones set
+ */
+export function bindLayerInteractions(
+  map: Map,
+  layerId: string,
+  content: { popup?: PopupContent; tooltip?: PopupContent }
+): void {
+  unbindLayerInteractions(map, layerId);
+  const { popup, tooltip } = content;
+  if (!popup && !tooltip) return;
+
+  const interaction: LayerInteraction = {
+    layerIds: getStyleLayerIds(map, layerId),
+    popup,
+    tooltip,
+    openPopup: null,
+    tooltipPopup: null,
+    onClick: (e) => {
+      // Clusters zoom in on click instead
+      const feature = e.features?.[0];
+      if (!popup || !feature || feature.properties?.cluster) return;
+
+      interaction.openPopup?.remove();
+      interaction.openPopup = setPopupContent(
+        new Popup({ className: `${CLASS_PREFIX}-popup`, maxWidth: '320px' }),
+        renderContent(popup, feature)
+      )
+        .setLngLat(e.lngLat)
+        .addTo(map);
+    },
+    onMouseMove: (e) => {
+      const feature = e.features?.[0];
+      if (!tooltip || !feature || feature.properties?.cluster) return;
+
+      interaction.tooltipPopup =
+        interaction.tooltipPopup ||
+        new Popup({
+          className: `${CLASS_PREFIX}-tooltip`,
+          closeButton: false,
+          closeOnClick: false,
+          offset: 12,
+        });
+      setPopupContent(interaction.tooltipPopup, renderContent(tooltip, feature)).setLngLat(
+        e.lngLat
+      );
+      if (!interaction.tooltipPopup.isOpen()) {
+        interaction.tooltipPopup.addTo(map);
+      }
+    },
+    onMouseEnter: () => {
+      map.getCanvas().style.cursor = 'pointer';
+    },
+    onMouseLeave: () => {
+      map.getCanvas().style.cursor = '';
+      interaction.tooltipPopup?.remove();
+    },
+  };
+
+  const { layerIds } = interaction;
+  map.on('click', layerIds, interaction.onClick);
+  map.on('mousemove', layerIds, interaction.onMouseMove);
+  map.on('mouseenter', layerIds, interaction.onMouseEnter);
+  map.on('mouseleave', layerIds, interaction.onMouseLeave);
+
+  const interactions = interactionsMap.get(map) || {};
+  interactions[layerId] = interaction;
+  interactionsMap.set(map, interactions);
+}
+
+/**
+ * Rebind the popup and tooltip of a layer after its sublayers changed.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ */
+export function refreshLayerInteractions(map: Map, layerId: string): void {
+  const interaction = interactionsMap.get(map)?.[layerId];
+  if (interaction) {
+    bindLayerInteractions(map, layerId, interaction);
+  }
+}
+
+/**
+ * Check that a layer is managed by this library.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @throws MapExtendError if there is no layer with the ID
+ */
+function assertLayerExists(map: Map, layerId: string): void {
+  if (!getLayerInfoById(map, layerId)) {
+    throw new MapExtendError(`No layer with ID ${layerId}`, 'LAYER_NOT_FOUND', { layerId });
+  }
+}
+
+/**
+ * Set or remove the click popup of a layer. The tooltip is kept.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param popup - Popup content, or null to remove the popup
+ * @returns The map instance for chaining
+ * @throws MapExtendError if there is no layer with the ID
+ *
+ * @example
+ * ```ts
+ * map.setLayerPopup('cities', ['name', 'population']);
+ * map.setLayerPopup('cities', (props) => `<b>${props.name}</b>`);
+ * ```
+ */
+export function setLayerPopup(map: Map, layerId: string, popup: PopupContent | null): Map {
+  assertLayerExists(map, layerId);
+  const tooltip = interactionsMap.get(map)?.[layerId]?.tooltip;
+  bindLayerInteractions(map, layerId, { popup: popup ?? undefined, tooltip });
+  return map;
+}
+
+/**
+ * Set or remove the hover tooltip of a layer. The popup is kept.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param tooltip - Tooltip content, or null to remove the tooltip
+ * @returns The map instance for chaining
+ * @throws MapExtendError if there is no layer with the ID
+ */
+export function setLayerTooltip(map: Map, layerId: string, tooltip: PopupContent | null): Map {
+  assertLayerExists(map, layerId);
+  const popup = interactionsMap.get(map)?.[layerId]?.popup;
+  bindLayerInteractions(map, layerId, { popup, tooltip: tooltip ?? undefined });
+  return map;
+}
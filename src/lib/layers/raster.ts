@@ -2,6 +2,9 @@ import type { Map } from 'maplibre-gl';
 import type { AddRasterOptions, AddCogOptions, AddWmsOptions } from './types';
 import { generateLayerId, generateSourceId } from '../utils';
 import { storeLayerInfo } from './registry';
+import { loadCogBounds } from './bounds';
+import { resolveBeforeId } from '../basemaps';
+import { withTileCache } from '../cache';
 
 /**
  * Add a raster tile layer to the map.
@@ -22,7 +25,7 @@ export function addRaster(
   // Add source
   map.addSource(sourceId, {
     type: 'raster',
-    tiles: [url],
+    tiles: withTileCache([url]),
     tileSize: options.tileSize || 256,
     attribution: options.attribution,
     bounds: options.bounds,
@@ -42,11 +45,13 @@ export function addRaster(
       minzoom: options.minzoom,
       maxzoom: options.maxzoom,
     },
-    options.beforeId
+    resolveBeforeId(map, options.beforeId)
   );
 
   // Store layer info
-  storeLayerInfo(map, layerId, sourceId, 'raster', options as Record<string, unknown>);
+  storeLayerInfo(map, layerId, sourceId, 'raster', options as Record<string, unknown>, {
+    bounds: options.bounds,
+  });
 
   return layerId;
 }
@@ -56,6 +61,7 @@ export function addRaster(
  *
  * This method supports COGs through TiTiler or similar tile servers.
  * For native COG protocol support, the maplibre-cog-protocol package is required.
+ * Without `bounds`, the bounds are loaded from the tile server's metadata.
  *
  * @param map - MapLibre map instance
  * @param url - URL to the COG file
@@ -84,7 +90,7 @@ export function addCogLayer(
   // Add source
   map.addSource(sourceId, {
     type: 'raster',
-    tiles: [tileUrl],
+    tiles: withTileCache([tileUrl]),
     tileSize: options.tileSize || 256,
     attribution: options.attribution,
     bounds: options.bounds,
@@ -104,7 +110,7 @@ export function addCogLayer(
       minzoom: options.minzoom,
       maxzoom: options.maxzoom,
     },
-    options.beforeId
+    resolveBeforeId(map, options.beforeId)
   );
 
   // Fit bounds if provided
@@ -119,7 +125,12 @@ export function addCogLayer(
   }
 
   // Store layer info
-  storeLayerInfo(map, layerId, sourceId, 'cog', { ...options, url } as Record<string, unknown>);
+  storeLayerInfo(map, layerId, sourceId, 'cog', { ...options, url } as Record<string, unknown>, {
+    bounds: options.bounds,
+  });
+  if (!options.bounds && options.tileServerUrl) {
+    loadCogBounds(map, layerId, options.tileServerUrl, url);
+  }
 
   return layerId;
 }
@@ -160,7 +171,7 @@ export function addWmsLayer(
   // Add source
   map.addSource(sourceId, {
     type: 'raster',
-    tiles: [wmsUrl],
+    tiles: withTileCache([wmsUrl]),
     tileSize: options.tileSize || 256,
     attribution: options.attribution,
     bounds: options.bounds,
@@ -178,11 +189,18 @@ export function addWmsLayer(
       minzoom: options.minzoom,
       maxzoom: options.maxzoom,
     },
-    options.beforeId
+    resolveBeforeId(map, options.beforeId)
   );
 
   // Store layer info
-  storeLayerInfo(map, layerId, sourceId, 'wms', { ...options, baseUrl } as Record<string, unknown>);
+  storeLayerInfo(
+    map,
+    layerId,
+    sourceId,
+    'wms',
+    { ...options, baseUrl } as Record<string, unknown>,
+    { bounds: options.bounds }
+  );
 
   return layerId;
 }
@@ -1,8 +1,12 @@
 import type { Map } from 'maplibre-gl';
+import type { GeoJSON } from 'geojson';
 import type { LayerInfo } from './types';
 
 const LAYER_REGISTRY_KEY = '__maplibreExtendLayers';
 
+// Store for the current data of GeoJSON layers per map instance
+const layerDataMap = new WeakMap<Map, Record<string, GeoJSON>>();
+
 /**
  * Layer registry stored on the map instance.
  */
@@ -10,6 +14,16 @@ interface LayerRegistry {
   [layerId: string]: LayerInfo;
 }
 
+/**
+ * Optional layer info set when a layer is stored.
+ */
+type LayerDetails = Partial<
+  Pick<
+    LayerInfo,
+    'sublayers' | 'classification' | 'categories' | 'sizing' | 'bounds' | 'geometryType'
+  >
+>;
+
 /**
  * Get the layer registry for a map instance.
  *
@@ -28,13 +42,15 @@ export function getLayerRegistry(map: Map): LayerRegistry {
  * @param sourceId - Source ID
  * @param type - Layer type
  * @param options - Original options
+ * @param details - Sublayers and styling details to keep with the layer
  */
 export function storeLayerInfo(
   map: Map,
   layerId: string,
   sourceId: string,
   type: string,
-  options: Record<string, unknown>
+  options: Record<string, unknown>,
+  details: LayerDetails = {}
 ): void {
   const registry = getLayerRegistry(map);
   registry[layerId] = {
@@ -46,6 +62,69 @@ export function storeLayerInfo(
     options,
   };
   (map as unknown as Record<string, LayerRegistry>)[LAYER_REGISTRY_KEY] = registry;
+  updateLayerDetails(map, layerId, details);
+}
+
+/**
+ * Replace the sublayers and styling details of a layer, e.g. after its data changed.
+ * Details that are not given are removed.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param details - Sublayers and styling details to keep with the layer
+ */
+export function updateLayerDetails(map: Map, layerId: string, details: LayerDetails): void {
+  const layerInfo = getLayerRegistry(map)[layerId];
+  if (!layerInfo) return;
+
+  delete layerInfo.sublayers;
+  delete layerInfo.classification;
+  delete layerInfo.categories;
+  delete layerInfo.sizing;
+  delete layerInfo.bounds;
+  delete layerInfo.geometryType;
+  if (details.sublayers && details.sublayers.length > 0) {
+    layerInfo.sublayers = details.sublayers;
+  }
+  if (details.classification) {
+    layerInfo.classification = details.classification;
+  }
+  if (details.categories) {
+    layerInfo.categories = details.categories;
+  }
+  if (details.sizing) {
+    layerInfo.sizing = details.sizing;
+  }
+  if (details.bounds) {
+    layerInfo.bounds = details.bounds;
+  }
+  if (details.geometryType) {
+    layerInfo.geometryType = details.geometryType;
+  }
+}
+
+/**
+ * Store the current data of a GeoJSON layer.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param data - GeoJSON data
+ */
+export function setLayerData(map: Map, layerId: string, data: GeoJSON): void {
+  const allData = layerDataMap.get(map) || {};
+  allData[layerId] = data;
+  layerDataMap.set(map, allData);
+}
+
+/**
+ * Get the current data of a GeoJSON layer.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @returns GeoJSON data or undefined
+ */
+export function getLayerData(map: Map, layerId: string): GeoJSON | undefined {
+  return layerDataMap.get(map)?.[layerId];
 }
 
 /**
@@ -58,6 +137,7 @@ export function removeLayerInfo(map: Map, layerId: string): void {
   const registry = getLayerRegistry(map);
   delete registry[layerId];
   (map as unknown as Record<string, LayerRegistry>)[LAYER_REGISTRY_KEY] = registry;
+  delete layerDataMap.get(map)?.[layerId];
 }
 
 /**
@@ -96,6 +176,24 @@ export function updateLayerOpacity(
   }
 }
 
+/**
+ * Update layer bounds in the registry.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param bounds - Bounds [west, south, east, north]
+ */
+export function updateLayerBounds(
+  map: Map,
+  layerId: string,
+  bounds: [number, number, number, number]
+): void {
+  const registry = getLayerRegistry(map);
+  if (registry[layerId]) {
+    registry[layerId].bounds = bounds;
+  }
+}
+
 /**
  * Get all custom layers from the registry.
  *
@@ -118,3 +216,31 @@ export function getLayerInfoById(map: Map, layerId: string): LayerInfo | null {
   const registry = getLayerRegistry(map);
   return registry[layerId] || null;
 }
+
+/**
+ * Get the style layer IDs that make up a layer: the layer itself followed by
+ * its sublayers.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @returns Style layer IDs in stacking order
+ */
+export function getStyleLayerIds(map: Map, layerId: string): string[] {
+  const layerInfo = getLayerRegistry(map)[layerId];
+  return [layerId, ...(layerInfo?.sublayers || [])];
+}
+
+/**
+ * Get the IDs of all style layers managed through the registry, including sublayers.
+ *
+ * @param map - MapLibre map instance
+ * @returns Set of style layer IDs
+ */
+export function getManagedStyleLayerIds(map: Map): Set<string> {
+  const ids = new Set<string>();
+  Object.values(getLayerRegistry(map)).forEach((layerInfo) => {
+    ids.add(layerInfo.layerId);
+    layerInfo.sublayers?.forEach((id) => ids.add(id));
+  });
+  return ids;
+}
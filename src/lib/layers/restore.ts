@@ -0,0 +1,184 @@
+import type {
+  Map,
+  StyleSpecification,
+  LayerSpecification,
+  TransformStyleFunction,
+} from 'maplibre-gl';
+import { getLayerRegistry, getManagedStyleLayerIds, removeLayerInfo } from './registry';
+import { unbindLayerInteractions } from './popups';
+import { unbindClusterZoom } from './cluster';
+import { unwatchSourceBounds } from './bounds';
+import {
+  getBasemap,
+  getBasemapOverlay,
+  isBasemapLayer,
+  isOverlayLayer,
+  resetBasemapState,
+  resetOverlayState,
+  normalizeSprite,
+  STYLE_BASEMAP_PREFIX,
+} from '../basemaps';
+
+// Per-map flag controlling whether custom layers are restored after setStyle()
+const restoreEnabledMap = new WeakMap<Map, boolean>();
+
+/**
+ * Options accepted by map.setStyle() that this module cares about.
+ */
+interface StyleRestoreOptions {
+  transformStyle?: TransformStyleFunction;
+}
+
+/**
+ * Enable or disable restoring the basemap and custom layers after map.setStyle().
+ * Restoring is enabled by default.
+ *
+ * @param map - MapLibre map instance
+ * @param enabled - Whether to restore layers after a style change
+ * @returns The map instance for chaining
+ */
+export function setRestoreOnStyleChange(map: Map, enabled: boolean): Map {
+  restoreEnabledMap.set(map, enabled);
+  return map;
+}
+
+/**
+ * Check whether layers are restored after map.setStyle().
+ *
+ * @param map - MapLibre map instance
+ * @returns True if restoring is enabled
+ */
+export function isRestoreOnStyleChangeEnabled(map: Map): boolean {
+  return restoreEnabledMap.get(map) ?? true;
+}
+
+/**
+ * Check whether a style layer is managed by this library.
+ *
+ * @param layerId - Layer ID
+ * @param managedIds - Style layer IDs of registered custom layers and their sublayers
+ * @returns True if the layer is the basemap, the overlay or a registered custom layer
+ */
+function isManagedLayer(layerId: string, managedIds: Set<string>): boolean {
+  return isBasemapLayer(layerId) || isOverlayLayer(layerId) || managedIds.has(layerId);
+}
+
+/**
+ * Drop registry entries, their handlers and basemap state for layers missing from
+ * the next style.
+ *
+ * @param map - MapLibre map instance
+ * @param next - Style that is about to be applied
+ */
+function pruneState(map: Map, next: StyleSpecification): void {
+  const nextLayerIds = new Set(next.layers.map((l) => l.id));
+
+  Object.keys(getLayerRegistry(map)).forEach((layerId) => {
+    if (!nextLayerIds.has(layerId)) {
+      unbindLayerInteractions(map, layerId);
+      unbindClusterZoom(map, layerId);
+      unwatchSourceBounds(map, layerId);
+      removeLayerInfo(map, layerId);
+    }
+  });
+
+  if (!next.layers.some((l) => isBasemapLayer(l.id))) {
+    resetBasemapState(map);
+  }
+  if (!next.layers.some((l) => isOverlayLayer(l.id))) {
+    resetOverlayState(map);
+  }
+}
+
+/**
+ * Carry the basemap and custom layers from the previous style into the next one.
+ * Basemap layers go to the bottom, custom layers and the overlay go on top in their
+ * original order and keep their paint and layout properties (visibility, opacity, ...).
+ * A restored basemap keeps its fallback error watcher, since map listeners survive setStyle().
+ *
+ * @param map - MapLibre map instance
+ * @param previous - Style currently applied to the map
+ * @param next - Style that is about to be applied
+ * @returns Style including the restored sources and layers
+ */
+export function restoreCustomLayers(
+  map: Map,
+  previous: StyleSpecification | undefined,
+  next: StyleSpecification
+): StyleSpecification {
+  if (!previous) return next;
+
+  if (!isRestoreOnStyleChangeEnabled(map)) {
+    pruneState(map, next);
+    return next;
+  }
+
+  const nextLayerIds = new Set(next.layers.map((l) => l.id));
+  const managedIds = getManagedStyleLayerIds(map);
+  const carried = previous.layers.filter(
+    (l) => isManagedLayer(l.id, managedIds) && !nextLayerIds.has(l.id)
+  );
+
+  if (carried.length === 0) return next;
+
+  // Copy the sources used by the carried layers
+  const sources = { ...next.sources };
+  carried.forEach((layer) => {
+    const sourceId = 'source' in layer ? layer.source : undefined;
+    if (sourceId && !(sourceId in sources) && previous.sources[sourceId]) {
+      sources[sourceId] = previous.sources[sourceId];
+    }
+  });
+
+  const basemapLayers: LayerSpecification[] = carried.filter((l) => isBasemapLayer(l.id));
+  const customLayers: LayerSpecification[] = carried.filter((l) => !isBasemapLayer(l.id));
+
+  const restored: StyleSpecification = {
+    ...next,
+    sources,
+    layers: [...basemapLayers, ...next.layers, ...customLayers],
+  };
+
+  // Symbol layers need glyphs; keep the previous ones if the new style has none
+  if (!restored.glyphs && previous.glyphs && carried.some((l) => l.type === 'symbol')) {
+    restored.glyphs = previous.glyphs;
+  }
+
+  // Keep sprites merged from a style basemap
+  const basemapSprites = normalizeSprite(previous.sprite).filter(({ id }) =>
+    id.startsWith(STYLE_BASEMAP_PREFIX)
+  );
+  if (basemapLayers.length > 0 && basemapSprites.length > 0) {
+    restored.sprite = [...normalizeSprite(restored.sprite), ...basemapSprites];
+  }
+
+  return restored;
+}
+
+/**
+ * Add a transformStyle function to map.setStyle() options that restores the
+ * basemap and custom layers. A transformStyle passed by the caller runs first.
+ *
+ * @param map - MapLibre map instance
+ * @param options - Options passed to map.setStyle()
+ * @returns Options with the restoring transformStyle
+ */
+export function withStyleRestore<T extends StyleRestoreOptions>(
+  map: Map,
+  options: T | undefined
+): T | undefined {
+  // Nothing to restore or prune
+  if (
+    Object.keys(getLayerRegistry(map)).length === 0 &&
+    !getBasemap(map) &&
+    !getBasemapOverlay(map)
+  ) {
+    return options;
+  }
+
+  const userTransform = options?.transformStyle;
+  const transformStyle: TransformStyleFunction = (previous, next) =>
+    restoreCustomLayers(map, previous, userTransform ? userTransform(previous, next) : next);
+
+  return { ...options, transformStyle } as T;
+}
@@ -2,8 +2,238 @@ import type {
   FillLayerSpecification,
   LineLayerSpecification,
   CircleLayerSpecification,
+  HeatmapLayerSpecification,
+  FillExtrusionLayerSpecification,
   FitBoundsOptions,
+  ExpressionSpecification,
+  MapGeoJSONFeature,
 } from 'maplibre-gl';
+import type { ColormapName, PaletteName } from './colormaps';
+import type { LoadOptions } from '../utils/loader';
+
+/**
+ * Method used to compute class breaks:
+ * - 'quantile': each class holds about the same number of features
+ * - 'equal': classes span equal value ranges
+ * - 'jenks': natural breaks minimizing the variance within classes
+ * - 'manual': breaks given explicitly
+ */
+export type ClassificationScheme = 'quantile' | 'equal' | 'jenks' | 'manual';
+
+/**
+ * Choropleth styling: color features by classifying a numeric property.
+ */
+export interface ChoroplethOptions {
+  /** Numeric property to classify */
+  column: string;
+  /** Classification scheme (default: 'quantile') */
+  scheme?: ClassificationScheme;
+  /** Number of classes (default: 5, or the number of manual breaks + 1) */
+  classes?: number;
+  /** Class thresholds for the 'manual' scheme, in ascending order */
+  breaks?: number[];
+  /** Class colors from low to high, one per class */
+  colors?: string[];
+  /** Colormap to draw class colors from when `colors` is not set (default: 'viridis') */
+  colormap?: ColormapName;
+  /** Color of features without a numeric value (default: '#cccccc') */
+  nullColor?: string;
+}
+
+/**
+ * Class breaks and colors of a classified layer, e.g. to build a legend.
+ * Class `i` covers values from `breaks[i]` up to (excluding) `breaks[i + 1]`;
+ * the last class includes the maximum.
+ */
+export interface LayerClassification {
+  /** Classified property */
+  column: string;
+  /** Classification scheme */
+  scheme: ClassificationScheme;
+  /** Class edges from the minimum to the maximum value (one more than colors) */
+  breaks: number[];
+  /** Class colors from low to high */
+  colors: string[];
+  /** Color of features without a numeric value */
+  nullColor: string;
+}
+
+/**
+ * Categorical styling: color features by the unique values of a property.
+ */
+export interface CategorizeOptions {
+  /** Property holding the category */
+  column: string;
+  /** Colors by category value; values without an entry take palette colors */
+  colors?: Record<string, string>;
+  /**
+   * Category values, in legend order. Discovered from the data for GeoJSON;
+   * for vector tiles they default to the keys of `colors`
+   */
+  values?: (string | number)[];
+  /** Palette for categories without an explicit color (default: 'tab10') */
+  palette?: PaletteName | string[];
+  /** Color of features matching no category (default: '#cccccc') */
+  otherColor?: string;
+}
+
+/**
+ * Scale mapping values to circle radii:
+ * - 'linear': radius proportional to the value
+ * - 'sqrt': circle area proportional to the value
+ * - 'log': radius proportional to the logarithm of the value
+ */
+export type SizeScale = 'linear' | 'sqrt' | 'log';
+
+/**
+ * Proportional symbol sizing: scale circle radii by a numeric property.
+ */
+export interface SizeByOptions {
+  /** Numeric property to size by */
+  column: string;
+  /** Radii in pixels for the smallest and largest value (default: [4, 24]) */
+  range?: [number, number];
+  /** Scale (default: 'sqrt') */
+  scale?: SizeScale;
+  /**
+   * Scale radii with zoom: radii are multiplied by `factor` (default: 0.25) at
+   * `minZoom` (default: 2) and reach `range` at `maxZoom` (default: 12)
+   */
+  zoomScaling?: boolean | { minZoom?: number; maxZoom?: number; factor?: number };
+}
+
+/**
+ * Value extents and radii of a proportionally sized layer, e.g. to build a legend.
+ */
+export interface LayerSizing {
+  /** Sized property */
+  column: string;
+  /** Scale */
+  scale: SizeScale;
+  /** Smallest and largest value in the data */
+  domain: [number, number];
+  /** Radii in pixels for the smallest and largest value */
+  range: [number, number];
+}
+
+/**
+ * Category colors of a categorized layer, e.g. to build a legend.
+ */
+export interface LayerCategories {
+  /** Categorized property */
+  column: string;
+  /** Category values and their colors, in legend order */
+  categories: { value: string | number; color: string }[];
+  /** Color of features matching no category */
+  otherColor: string;
+}
+
+/**
+ * Point clustering: nearby points are drawn as circles sized and colored by
+ * their point count, with the count on top.
+ */
+export interface ClusterOptions {
+  /** Cluster radius in pixels (default: 50) */
+  radius?: number;
+  /** Max zoom to cluster points on (default: 14) */
+  maxZoom?: number;
+  /**
+   * Aggregated cluster properties, as `clusterProperties` of GeoJSON sources
+   * (e.g., `{ total: ['+', ['get', 'population']] }`)
+   */
+  properties?: Record<string, unknown>;
+  /** Cluster colors from small to large, one more than `sizeSteps` */
+  colors?: string[];
+  /** Point counts at which clusters grow and take the next color (default: [100, 750]) */
+  sizeSteps?: number[];
+}
+
+/**
+ * Heatmap of point density.
+ */
+export interface HeatmapOptions {
+  /** Numeric property weighting the points, scaled over its extents (default: equal weights) */
+  weight?: string;
+  /** Radius of influence of a point in pixels (default: 20) */
+  radius?: number;
+  /** Intensity multiplier (default: 1) */
+  intensity?: number;
+  /**
+   * Color ramp: a colormap, or [density, color] stops with densities from 0 to 1
+   * (default: MapLibre's ramp)
+   */
+  colors?: ColormapName | [number, string][];
+  /** Zoom level from which points are drawn as circles instead of the heatmap */
+  circleZoom?: number;
+}
+
+/**
+ * Continuous coloring of extruded polygons along a colormap.
+ */
+export interface ExtrusionColorOptions {
+  /** Numeric property to color by (default: the height column) */
+  column?: string;
+  /** Colormap spanning the domain (default: 'viridis') */
+  colormap?: ColormapName;
+  /**
+   * Values mapped to the ends of the colormap (default: the extents of the GeoJSON data;
+   * required for vector tiles)
+   */
+  domain?: [number, number];
+}
+
+/**
+ * 3D extrusion of polygons. Heights are in meters.
+ */
+export interface ExtrudeOptions {
+  /** Numeric property holding the height */
+  heightColumn?: string;
+  /** Constant height, or the height of features without a value in `heightColumn` */
+  height?: number;
+  /** Numeric property holding the height the extrusion starts from (default: ground) */
+  baseColumn?: string;
+  /** Factor applied to heights and bases, e.g. to exaggerate small values (default: 1) */
+  multiplier?: number;
+  /** Color by a numeric property instead of the fill color */
+  colorBy?: ExtrusionColorOptions;
+  /** Camera pitch applied with `fitBounds` (default: 45) */
+  pitch?: number;
+}
+
+/**
+ * Popup or tooltip content: `true` for a table of all properties, a list of
+ * properties to show in the table, or a function returning HTML or an element.
+ */
+export type PopupContent =
+  | true
+  | string[]
+  | ((properties: Record<string, unknown>, feature: MapGeoJSONFeature) => string | HTMLElement);
+
+/**
+ * Feature labels drawn by a symbol layer on top of the labelled layer.
+ */
+export interface LabelOptions {
+  /** Property holding the label text */
+  field?: string;
+  /** Expression for the label text, used instead of `field` */
+  expression?: ExpressionSpecification;
+  /** Font stack (default: the font of the style's labels, or 'Open Sans Semibold') */
+  font?: string[];
+  /** Text size in pixels (default: 12) */
+  size?: number;
+  /** Text color (default: '#333333') */
+  color?: string;
+  /** Halo color (default: '#ffffff') */
+  haloColor?: string;
+  /** Halo width in pixels (default: 1) */
+  haloWidth?: number;
+  /** Placement (default: 'line' for line layers, 'point' otherwise) */
+  placement?: 'point' | 'line';
+  /** Whether labels may overlap other labels (default: false) */
+  allowOverlap?: boolean;
+  /** Glyphs URL to set when the style has none (default: MapLibre demo fonts) */
+  glyphs?: string;
+}
 
 /**
  * Options for adding GeoJSON data to the map.
@@ -13,13 +243,18 @@ export interface AddGeojsonOptions {
   layerId?: string;
   /** Custom source ID (auto-generated if not provided) */
   sourceId?: string;
-  /** Layer type: 'fill', 'line', 'circle' (auto-detected if not provided) */
-  type?: 'fill' | 'line' | 'circle';
+  /**
+   * Layer type: 'fill', 'line', 'circle', 'heatmap', 'fill-extrusion'
+   * (auto-detected if not provided)
+   */
+  type?: 'fill' | 'line' | 'circle' | 'heatmap' | 'fill-extrusion';
   /** Paint properties for the layer */
   paint?:
     | FillLayerSpecification['paint']
     | LineLayerSpecification['paint']
-    | CircleLayerSpecification['paint'];
+    | CircleLayerSpecification['paint']
+    | HeatmapLayerSpecification['paint']
+    | FillExtrusionLayerSpecification['paint'];
   /** Layer opacity (0-1) */
   opacity?: number;
   /** Fill color for polygons */
@@ -48,6 +283,64 @@ export interface AddGeojsonOptions {
   maxzoom?: number;
   /** Insert layer before this layer ID */
   beforeId?: string;
+  /** Choropleth styling; overrides fillColor, lineColor and circleColor */
+  style?: ChoroplethOptions;
+  /** Categorical styling; overrides fillColor, lineColor and circleColor */
+  categorize?: CategorizeOptions;
+  /** Proportional circle sizing; overrides circleRadius */
+  sizeBy?: SizeByOptions;
+  /** Feature labels */
+  label?: LabelOptions;
+  /** Popup shown when a feature is clicked */
+  popup?: PopupContent;
+  /** Tooltip shown while hovering a feature */
+  tooltip?: PopupContent;
+  /** Cluster points (point data only) */
+  cluster?: boolean | ClusterOptions;
+  /** Heatmap options for `type: 'heatmap'` */
+  heatmap?: HeatmapOptions;
+  /** Extrusion options for `type: 'fill-extrusion'` */
+  extrude?: ExtrudeOptions;
+  /** Options for loading the data from a URL (timeout, cancellation, retries, ...) */
+  loadOptions?: LoadOptions;
+}
+
+/**
+ * Options for adding CSV and other delimited text layers.
+ */
+export interface AddCsvOptions extends AddGeojsonOptions {
+  /** Latitude column (default: detected from lat, latitude or y) */
+  latColumn?: string;
+  /** Longitude column (default: detected from lon, lng, long, longitude or x) */
+  lonColumn?: string;
+  /** Column with WKT geometries, used instead of latitude and longitude columns */
+  wktColumn?: string;
+  /** Field delimiter (default: detected from the header line among , ; tab and |) */
+  delimiter?: string;
+  /** Convert numbers, booleans and empty fields in properties (default: true) */
+  typeInference?: boolean;
+}
+
+/**
+ * CSV row skipped because its geometry is invalid.
+ */
+export interface CsvInvalidRow {
+  /** Line number of the row, counting the header as 1 */
+  row: number;
+  /** Why the row was skipped */
+  reason: string;
+  /** Field values by column */
+  values: Record<string, string>;
+}
+
+/**
+ * Result of adding a CSV layer.
+ */
+export interface AddCsvResult {
+  /** Layer ID */
+  layerId: string;
+  /** Rows skipped because of missing, non-numeric or out-of-range coordinates */
+  invalidRows: CsvInvalidRow[];
 }
 
 /**
@@ -114,10 +407,14 @@ export interface AddVectorOptions {
   maxzoom?: number;
   /** Attribution text */
   attribution?: string;
-  /** Whether to fit bounds to the data */
+  /** Whether to fit bounds to the data once its bounds are known */
   fitBounds?: boolean;
+  /** Options for fitBounds */
+  fitBoundsOptions?: FitBoundsOptions;
+  /** Bounds [west, south, east, north]; read from TileJSON or PMTiles headers if not given */
+  bounds?: [number, number, number, number];
   /** Layer type for styling */
-  type?: 'fill' | 'line' | 'circle';
+  type?: 'fill' | 'line' | 'circle' | 'fill-extrusion';
   /** Fill color */
   fillColor?: string;
   /** Line color */
@@ -134,6 +431,29 @@ export interface AddVectorOptions {
   layerId?: string;
   /** Insert layer before this layer ID */
   beforeId?: string;
+  /** Categorical styling with explicit values; overrides the single colors */
+  categorize?: CategorizeOptions;
+  /** Feature labels */
+  label?: LabelOptions;
+  /** Popup shown when a feature is clicked */
+  popup?: PopupContent;
+  /** Tooltip shown while hovering a feature */
+  tooltip?: PopupContent;
+  /** Extrusion options for `type: 'fill-extrusion'` */
+  extrude?: ExtrudeOptions;
+}
+
+/**
+ * Geometry type detected in GeoJSON data; 'Mixed' when features differ or there are none.
+ */
+export type DetectedGeometryType = 'Point' | 'LineString' | 'Polygon' | 'Mixed';
+
+/**
+ * Options for appending features to a GeoJSON layer.
+ */
+export interface AppendFeaturesOptions {
+  /** Largest number of features to keep; the oldest are dropped first */
+  maxFeatures?: number;
 }
 
 /**
@@ -152,4 +472,22 @@ export interface LayerInfo {
   opacity: number;
   /** Original options used to create the layer */
   options: Record<string, unknown>;
+  /**
+   * Additional style layers managed together with `layerId`, in stacking order
+   * (e.g., the line and circle layers of mixed-geometry GeoJSON)
+   */
+  sublayers?: string[];
+  /** Class breaks and colors of choropleth layers */
+  classification?: LayerClassification;
+  /** Category colors of categorized layers */
+  categories?: LayerCategories;
+  /** Value extents and radii of proportionally sized layers */
+  sizing?: LayerSizing;
+  /**
+   * Extent [west, south, east, north]: computed from GeoJSON data, read from TileJSON,
+   * PMTiles headers or COG metadata once loaded, or given in the options
+   */
+  bounds?: [number, number, number, number];
+  /** Geometry type detected in the data of GeoJSON layers */
+  geometryType?: DetectedGeometryType;
 }
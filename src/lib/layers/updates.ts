@@ -0,0 +1,234 @@
+import type { Map, AddLayerObject, GeoJSONSource } from 'maplibre-gl';
+import type { GeoJSON, Feature, FeatureCollection } from 'geojson';
+import type { AddGeojsonOptions, AppendFeaturesOptions, LayerInfo } from './types';
+import { buildGeojsonLayers, calculateBbox, resolveDataStyling } from './geojson';
+import {
+  getLayerData,
+  getLayerInfoById,
+  getStyleLayerIds,
+  setLayerData,
+  updateLayerDetails,
+} from './registry';
+import { isEmptyCollection } from './classify';
+import { refreshLayerInteractions } from './popups';
+import { setLayerOpacity, setLayerVisibility } from './management';
+import { MapExtendError } from '../utils/validation';
+
+/**
+ * Get the registry entry of a GeoJSON layer.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @returns Layer info
+ * @throws MapExtendError if there is no GeoJSON layer with the ID
+ */
+function getGeojsonLayerInfo(map: Map, layerId: string): LayerInfo {
+  const layerInfo = getLayerInfoById(map, layerId);
+  if (!layerInfo || layerInfo.type !== 'geojson') {
+    throw new MapExtendError(`No GeoJSON layer with ID ${layerId}`, 'LAYER_NOT_FOUND', {
+      layerId,
+    });
+  }
+  return layerInfo;
+}
+
+/**
+ * Wrap GeoJSON data in a feature collection.
+ *
+ * @param data - GeoJSON data
+ * @returns Feature collection
+ */
+function toFeatureCollection(data: GeoJSON): FeatureCollection {
+  if (data.type === 'FeatureCollection') return data;
+  if (data.type === 'Feature') return { type: 'FeatureCollection', features: [data] };
+  return {
+    type: 'FeatureCollection',
+    features: [{ type: 'Feature', geometry: data, properties: {} }],
+  };
+}
+
+/**
+ * Find the style layer above a group of layers, to insert replacements before it.
+ *
+ * @param map - MapLibre map instance
+ * @param ids - Style layer IDs of the group
+ * @returns ID of the first other layer above the group, or undefined for the top
+ */
+function findLayerAbove(map: Map, ids: string[]): string | undefined {
+  const layers = map.getStyle()?.layers || [];
+  let lastIndex = -1;
+  layers.forEach((layer, i) => {
+    if (ids.includes(layer.id)) lastIndex = i;
+  });
+  if (lastIndex < 0) return undefined;
+  return layers.slice(lastIndex + 1).find((layer) => !ids.includes(layer.id))?.id;
+}
+
+/**
+ * Replace the data of a GeoJSON layer. The bounds, geometry type, class breaks,
+ * categories and size extents are recomputed from the new data. When the detected
+ * geometry type changes the layers drawing it (e.g., a point layer receiving
+ * polygons), they are replaced in place, keeping visibility, opacity and popups.
+ * Empty feature collections keep the current layers and their paint, and clear the
+ * breaks, categories and size extents until features arrive.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param data - GeoJSON data
+ * @returns The map instance for chaining
+ * @throws MapExtendError if there is no GeoJSON layer with the ID, or the layer's
+ * options do not fit the new data (e.g., clustering of polygons)
+ *
+ * @example
+ * ```ts
+ * map.updateGeojson('vehicles', await (await fetch('/api/vehicles')).json());
+ * ```
+ */
+export function updateGeojson(map: Map, layerId: string, data: GeoJSON): Map {
+  const layerInfo = getGeojsonLayerInfo(map, layerId);
+  const options = layerInfo.options as AddGeojsonOptions;
+
+  if (isEmptyCollection(data)) {
+    // Breaks, categories and size extents of the removed features no longer apply
+    const styling = resolveDataStyling(data, options);
+    map.getSource<GeoJSONSource>(layerInfo.sourceId)?.setData(data);
+    setLayerData(map, layerId, data);
+    updateLayerDetails(map, layerId, {
+      sublayers: layerInfo.sublayers,
+      classification: styling.classification,
+      categories: styling.categories,
+      sizing: styling.sizing,
+      bounds: undefined,
+      geometryType: layerInfo.geometryType,
+    });
+    return map;
+  }
+
+  // Plan the layers first so data that does not fit the options leaves the layer untouched
+  const { layers, styling, geometryType } = buildGeojsonLayers(
+    map,
+    layerId,
+    layerInfo.sourceId,
+    data,
+    options
+  );
+  const currentIds = getStyleLayerIds(map, layerId);
+  const isSameStructure =
+    layers.length === currentIds.length &&
+    layers.every(
+      (layer, i) => layer.id === currentIds[i] && map.getLayer(layer.id)?.type === layer.type
+    );
+
+  map.getSource<GeoJSONSource>(layerInfo.sourceId)?.setData(data);
+
+  if (isSameStructure) {
+    // Restyle from the new data; opacity is left to setLayerOpacity
+    layers.forEach((layer) => {
+      const paint = (layer as { paint?: Record<string, unknown> }).paint || {};
+      Object.entries(paint).forEach(([key, value]) => {
+        if (!key.endsWith('-opacity')) {
+          map.setPaintProperty(layer.id, key, value);
+        }
+      });
+    });
+  } else {
+    const beforeId = findLayerAbove(map, currentIds);
+    currentIds.forEach((id) => {
+      if (map.getLayer(id)) {
+        map.removeLayer(id);
+      }
+    });
+    layers.forEach((layer) => {
+      map.addLayer(
+        { minzoom: options.minzoom, maxzoom: options.maxzoom, ...layer } as AddLayerObject,
+        beforeId
+      );
+    });
+  }
+
+  updateLayerDetails(map, layerId, {
+    sublayers: layers.slice(1).map((layer) => layer.id),
+    classification: styling.classification,
+    categories: styling.categories,
+    sizing: styling.sizing,
+    bounds: calculateBbox(data) ?? undefined,
+    geometryType,
+  });
+  setLayerData(map, layerId, data);
+
+  if (!isSameStructure) {
+    refreshLayerInteractions(map, layerId);
+    if (!layerInfo.visible) {
+      setLayerVisibility(map, layerId, false);
+    }
+    // Only reapply opacity changed by setLayerOpacity, as defaults differ by layer type
+    if (layerInfo.opacity !== (options.opacity ?? 1)) {
+      setLayerOpacity(map, layerId, layerInfo.opacity);
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Append features to a GeoJSON layer, e.g. positions from a live feed.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param features - Features to append
+ * @param options - Append options
+ * @returns The map instance for chaining
+ * @throws MapExtendError if there is no GeoJSON layer with the ID, or the layer's
+ * options do not fit the new data
+ *
+ * @example
+ * ```ts
+ * map.appendFeatures('sensors', reading, { maxFeatures: 500 });
+ * ```
+ */
+export function appendFeatures(
+  map: Map,
+  layerId: string,
+  features: Feature | Feature[],
+  options: AppendFeaturesOptions = {}
+): Map {
+  getGeojsonLayerInfo(map, layerId);
+  const current = getLayerData(map, layerId);
+  let all = [
+    ...(current ? toFeatureCollection(current).features : []),
+    ...(Array.isArray(features) ? features : [features]),
+  ];
+  if (options.maxFeatures !== undefined) {
+    all = all.slice(Math.max(all.length - options.maxFeatures, 0));
+  }
+  return updateGeojson(map, layerId, { type: 'FeatureCollection', features: all });
+}
+
+/**
+ * Remove the features of a GeoJSON layer matching a predicate.
+ *
+ * @param map - MapLibre map instance
+ * @param layerId - Layer ID
+ * @param predicate - Returns true for features to remove
+ * @returns The map instance for chaining
+ * @throws MapExtendError if there is no GeoJSON layer with the ID, or the layer's
+ * options do not fit the remaining data
+ *
+ * @example
+ * ```ts
+ * map.removeFeatures('vehicles', (f) => f.properties?.status === 'offline');
+ * ```
+ */
+export function removeFeatures(
+  map: Map,
+  layerId: string,
+  predicate: (feature: Feature, index: number) => boolean
+): Map {
+  getGeojsonLayerInfo(map, layerId);
+  const current = getLayerData(map, layerId);
+  const features = current ? toFeatureCollection(current).features : [];
+  return updateGeojson(map, layerId, {
+    type: 'FeatureCollection',
+    features: features.filter((feature, i) => !predicate(feature, i)),
+  });
+}
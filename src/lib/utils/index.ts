@@ -5,3 +5,6 @@ export {
 } from './id-generator';
 
 export { MapExtendError, validateUrl, validateBasemapName, clamp } from './validation';
+
+export { loadText, loadJson, loadGeojson } from './loader';
+export type { LoadOptions, LoadProgress } from './loader';
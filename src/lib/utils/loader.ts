@@ -0,0 +1,272 @@
+import type { GeoJSON } from 'geojson';
+import { MapExtendError } from './validation';
+
+/**
+ * Download progress of a remote resource.
+ */
+export interface LoadProgress {
+  /** URL being loaded */
+  url: string;
+  /** Bytes received so far */
+  loaded: number;
+  /** Size from the Content-Length header, or null if unknown */
+  total: number | null;
+}
+
+/**
+ * Options for loading remote data.
+ */
+export interface LoadOptions {
+  /** Signal to cancel the request */
+  signal?: AbortSignal;
+  /** Timeout of each attempt in milliseconds, including the download (default: none) */
+  timeout?: number;
+  /** Request headers, e.g. for authorization */
+  headers?: Record<string, string>;
+  /** Credentials mode, e.g. 'include' to send cookies cross-origin */
+  credentials?: RequestCredentials;
+  /** Retries after network errors, timeouts and 408, 429 or 5xx responses (default: 0) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry (default: 500) */
+  retryDelay?: number;
+  /** Called as the response body is downloaded */
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+/**
+ * GeoJSON object types accepted by loadGeojson.
+ */
+const GEOJSON_TYPES = [
+  'FeatureCollection',
+  'Feature',
+  'Point',
+  'MultiPoint',
+  'LineString',
+  'MultiLineString',
+  'Polygon',
+  'MultiPolygon',
+  'GeometryCollection',
+];
+
+/**
+ * Check whether a load error is worth retrying.
+ *
+ * @param error - Error thrown by an attempt
+ * @returns True for network errors, timeouts and transient HTTP errors
+ */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof MapExtendError)) return false;
+  const status = error.details?.status as number | undefined;
+  return (
+    error.code === 'FETCH_FAILED' ||
+    error.code === 'FETCH_TIMEOUT' ||
+    (status !== undefined && (status >= 500 || status === 408 || status === 429))
+  );
+}
+
+/**
+ * Wait before a retry.
+ *
+ * @param url - URL being loaded
+ * @param delay - Delay in milliseconds
+ * @param signal - Signal cancelling the wait
+ * @throws MapExtendError if the signal is aborted
+ */
+function waitForRetry(url: string, delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new MapExtendError(`Loading ${url} was aborted`, 'FETCH_ABORTED', { url }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Read a response body as text, reporting download progress.
+ *
+ * @param response - Response
+ * @param url - URL being loaded
+ * @param onProgress - Progress callback
+ * @returns Body text
+ */
+async function readText(
+  response: Response,
+  url: string,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<string> {
+  if (!onProgress || !response.body) return response.text();
+
+  const length = response.headers.get('content-length');
+  const total = length ? Number(length) : null;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let loaded = 0;
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    text += decoder.decode(value, { stream: true });
+    onProgress({ url, loaded, total });
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * Fetch a URL and read its body once, with the timeout covering both.
+ *
+ * @param url - URL to load
+ * @param options - Load options
+ * @param read - Reads the response body
+ * @returns Body read by `read`
+ * @throws MapExtendError with code FETCH_FAILED, FETCH_TIMEOUT, FETCH_ABORTED,
+ * HTTP_<status> or one thrown by `read`
+ */
+async function attemptLoad<T>(
+  url: string,
+  options: LoadOptions,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort);
+  let timedOut = false;
+  const timer =
+    options.timeout !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, options.timeout)
+      : undefined;
+
+  try {
+    if (options.signal?.aborted) controller.abort();
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: options.headers,
+      credentials: options.credentials,
+    });
+    if (!response.ok) {
+      throw new MapExtendError(
+        `Failed to load ${url}: HTTP ${response.status}`,
+        `HTTP_${response.status}`,
+        { url, status: response.status }
+      );
+    }
+    return await read(response);
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw new MapExtendError(`Loading ${url} was aborted`, 'FETCH_ABORTED', { url });
+    }
+    if (timedOut) {
+      throw new MapExtendError(
+        `Loading ${url} timed out after ${options.timeout} ms`,
+        'FETCH_TIMEOUT',
+        { url, timeout: options.timeout }
+      );
+    }
+    if (error instanceof MapExtendError) throw error;
+    throw new MapExtendError(`Failed to load ${url}`, 'FETCH_FAILED', { url, error });
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Load a remote resource, retrying transient failures with exponential backoff.
+ *
+ * @param url - URL to load
+ * @param options - Load options
+ * @param read - Reads the response body
+ * @returns Body read by `read`
+ */
+async function load<T>(
+  url: string,
+  options: LoadOptions,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const retries = options.retries ?? 0;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptLoad(url, options, read);
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) throw error;
+      await waitForRetry(url, (options.retryDelay ?? 500) * 2 ** attempt, options.signal);
+    }
+  }
+}
+
+/**
+ * Load a remote text file.
+ *
+ * @param url - URL to load
+ * @param options - Load options
+ * @returns File contents
+ * @throws MapExtendError with code FETCH_FAILED, FETCH_TIMEOUT, FETCH_ABORTED or HTTP_<status>
+ */
+export function loadText(url: string, options: LoadOptions = {}): Promise<string> {
+  return load(url, options, (response) => readText(response, url, options.onProgress));
+}
+
+/**
+ * Load and parse a remote JSON file.
+ *
+ * @param url - URL to load
+ * @param options - Load options
+ * @returns Parsed JSON
+ * @throws MapExtendError with code FETCH_FAILED, FETCH_TIMEOUT, FETCH_ABORTED,
+ * HTTP_<status> or INVALID_JSON
+ */
+export function loadJson<T = unknown>(url: string, options: LoadOptions = {}): Promise<T> {
+  return load(url, options, async (response) => {
+    try {
+      return options.onProgress
+        ? JSON.parse(await readText(response, url, options.onProgress))
+        : await response.json();
+    } catch (error) {
+      // Network errors while downloading are retried; parse errors are not
+      if (!(error instanceof SyntaxError)) throw error;
+      throw new MapExtendError(`Invalid JSON from ${url}`, 'INVALID_JSON', { url, error });
+    }
+  });
+}
+
+/**
+ * Load a remote GeoJSON file.
+ *
+ * @param url - URL to load
+ * @param options - Load options
+ * @returns GeoJSON data
+ * @throws MapExtendError with code FETCH_FAILED, FETCH_TIMEOUT, FETCH_ABORTED,
+ * HTTP_<status> or INVALID_GEOJSON
+ */
+export async function loadGeojson(url: string, options: LoadOptions = {}): Promise<GeoJSON> {
+  let data: unknown;
+  try {
+    data = await loadJson(url, options);
+  } catch (error) {
+    if (error instanceof MapExtendError && error.code === 'INVALID_JSON') {
+      throw new MapExtendError(`Invalid GeoJSON from ${url}`, 'INVALID_GEOJSON', {
+        url,
+        error: error.details?.error,
+      });
+    }
+    throw error;
+  }
+
+  const type = (data as { type?: unknown } | null)?.type;
+  if (typeof type !== 'string' || !GEOJSON_TYPES.includes(type)) {
+    throw new MapExtendError(
+      `Invalid GeoJSON from ${url}: expected a GeoJSON object, got type ${String(type)}`,
+      'INVALID_GEOJSON',
+      { url, type }
+    );
+  }
+  return data as GeoJSON;
+}
@@ -1,32 +1,46 @@
-import type { GeoJSON } from 'geojson';
+import type { GeoJSON, Feature } from 'geojson';
 import type { FitBoundsOptions } from 'maplibre-gl';
-import type { BasemapName } from './lib/basemaps/types';
+import type {
+  AddBasemapOptions,
+  BasemapName,
+  BasemapStyleOptions,
+  BasemapStylePreset,
+} from './lib/basemaps/types';
 import type {
   AddGeojsonOptions,
   AddRasterOptions,
   AddCogOptions,
   AddWmsOptions,
   AddVectorOptions,
+  AppendFeaturesOptions,
+  AddCsvOptions,
+  AddCsvResult,
   LayerInfo,
+  PopupContent,
 } from './lib/layers/types';
+import type { PrefetchBasemapOptions, PrefetchProgress } from './lib/cache/types';
 
 declare module 'maplibre-gl' {
   interface Map {
     /**
      * Add a basemap layer to the map. The basemap is added at the bottom of the layer stack.
+     * With a list of names, the next candidate is used when the current one keeps failing
+     * to load tiles, and a 'basemapfallback' event is fired.
      *
-     * @param name - Name of the basemap (e.g., 'OpenStreetMap.Mapnik', 'CartoDB.DarkMatter')
+     * @param name - Name of the basemap (e.g., 'OpenStreetMap.Mapnik') or ordered list of candidates
+     * @param options - Basemap options (e.g., API key for keyed providers)
      * @returns The map instance for chaining
      */
-    addBasemap(name: BasemapName): this;
+    addBasemap(name: BasemapName | BasemapName[], options?: AddBasemapOptions): this;
 
     /**
      * Set (replace) the current basemap. Alias for addBasemap.
      *
-     * @param name - Name of the basemap
+     * @param name - Name of the basemap or ordered list of candidates
+     * @param options - Basemap options (e.g., API key for keyed providers)
      * @returns The map instance for chaining
      */
-    setBasemap(name: BasemapName): this;
+    setBasemap(name: BasemapName | BasemapName[], options?: AddBasemapOptions): this;
 
     /**
      * Get the current basemap name.
@@ -35,6 +49,40 @@ declare module 'maplibre-gl' {
      */
     getBasemap(): BasemapName | null;
 
+    /**
+     * Set a basemap overlay (e.g., 'CartoDB.PositronOnlyLabels') that stays on top of
+     * all layers added through this library. Pass null to remove the overlay.
+     *
+     * @param name - Name of the basemap or null
+     * @param options - Basemap options (e.g., API key for keyed providers)
+     * @returns The map instance for chaining
+     */
+    setBasemapOverlay(name: BasemapName | null, options?: AddBasemapOptions): this;
+
+    /**
+     * Get the current basemap overlay name.
+     *
+     * @returns Current overlay name or null if no overlay is set
+     */
+    getBasemapOverlay(): BasemapName | null;
+
+    /**
+     * Adjust the raster appearance of the basemap (opacity, saturation, contrast,
+     * brightness, hue). Options are merged with the current appearance, a preset
+     * replaces it. The appearance is kept across setBasemap calls.
+     *
+     * @param style - Appearance options or preset ('default', 'grayscale', 'dimmed', 'muted', 'inverted')
+     * @returns The map instance for chaining
+     */
+    setBasemapStyle(style: BasemapStyleOptions | BasemapStylePreset): this;
+
+    /**
+     * Get the current basemap appearance.
+     *
+     * @returns Appearance options that differ from the defaults
+     */
+    getBasemapStyle(): BasemapStyleOptions;
+
     /**
      * Add GeoJSON data to the map.
      *
@@ -122,7 +170,7 @@ declare module 'maplibre-gl' {
     setLayerOpacity(layerId: string, opacity: number): this;
 
     /**
-     * Move a layer to the front (top of the layer stack).
+     * Move a layer to the front (top of the layer stack, below the basemap overlay).
      *
      * @param layerId - Layer ID
      * @returns The map instance for chaining
@@ -145,5 +193,100 @@ declare module 'maplibre-gl' {
      * @returns The map instance for chaining
      */
     fitToLayer(layerId: string, options?: FitBoundsOptions): this;
+
+    /**
+     * Get the extent of a layer. Bounds of vector tiles and COGs are null until loaded.
+     *
+     * @param layerId - Layer ID
+     * @returns Bounds [west, south, east, north] or null
+     */
+    getLayerBounds(layerId: string): [number, number, number, number] | null;
+
+    /**
+     * Set or remove the popup shown when a feature of a layer is clicked.
+     *
+     * @param layerId - Layer ID
+     * @param popup - Popup content, or null to remove the popup
+     * @returns The map instance for chaining
+     */
+    setLayerPopup(layerId: string, popup: PopupContent | null): this;
+
+    /**
+     * Set or remove the tooltip shown while hovering a feature of a layer.
+     *
+     * @param layerId - Layer ID
+     * @param tooltip - Tooltip content, or null to remove the tooltip
+     * @returns The map instance for chaining
+     */
+    setLayerTooltip(layerId: string, tooltip: PopupContent | null): this;
+
+    /**
+     * Replace the data of a GeoJSON layer, recomputing its bounds, geometry type
+     * and data-driven styling.
+     *
+     * @param layerId - Layer ID
+     * @param data - GeoJSON data
+     * @returns The map instance for chaining
+     */
+    updateGeojson(layerId: string, data: GeoJSON): this;
+
+    /**
+     * Append features to a GeoJSON layer.
+     *
+     * @param layerId - Layer ID
+     * @param features - Features to append
+     * @param options - Append options (e.g., the largest number of features to keep)
+     * @returns The map instance for chaining
+     */
+    appendFeatures(
+      layerId: string,
+      features: Feature | Feature[],
+      options?: AppendFeaturesOptions
+    ): this;
+
+    /**
+     * Remove the features of a GeoJSON layer matching a predicate.
+     *
+     * @param layerId - Layer ID
+     * @param predicate - Returns true for features to remove
+     * @returns The map instance for chaining
+     */
+    removeFeatures(layerId: string, predicate: (feature: Feature, index: number) => boolean): this;
+
+    /**
+     * Add CSV or other delimited text as a point layer (or WKT geometries), styled
+     * like addGeojson. Rows with invalid coordinates are skipped and returned.
+     *
+     * @param csv - Delimited text, or URL to load it from
+     * @param options - CSV and layer options
+     * @returns Promise resolving to the layer ID and the skipped rows
+     */
+    addCsv(csv: string, options?: AddCsvOptions): Promise<AddCsvResult>;
+
+    /**
+     * Enable or disable restoring the basemap and custom layers after setStyle().
+     * Restoring is enabled by default.
+     *
+     * @param enabled - Whether to restore layers after a style change
+     * @returns The map instance for chaining
+     */
+    setRestoreOnStyleChange(enabled: boolean): this;
+
+    /**
+     * Download the tiles of the current raster basemap for an area into the tile cache.
+     * Requires the tile cache to be enabled with enableTileCache().
+     *
+     * @param bbox - Bounding box [west, south, east, north]
+     * @param minZoom - Minimum zoom level
+     * @param maxZoom - Maximum zoom level
+     * @param options - Prefetch options (basemap, progress callback, abort signal)
+     * @returns Promise resolving to the final progress
+     */
+    prefetchBasemapArea(
+      bbox: [number, number, number, number],
+      minZoom: number,
+      maxZoom: number,
+      options?: PrefetchBasemapOptions
+    ): Promise<PrefetchProgress>;
   }
 }
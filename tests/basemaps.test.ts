@@ -1,10 +1,13 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import {
   basemaps,
   getBasemapNames,
   getBasemapDefinition,
+  registerBasemap,
+  unregisterBasemap,
 } from '../src/lib/basemaps';
 import type { BasemapName } from '../src/lib/basemaps/types';
+import { MapExtendError, validateBasemapName } from '../src/lib/utils';
 
 describe('basemaps catalog', () => {
   it('should have all expected OpenStreetMap basemaps', () => {
@@ -62,14 +65,805 @@ describe('basemaps catalog', () => {
     });
   });
 
-  it('should have valid URLs for all basemaps', () => {
+  it('should have valid URLs for all raster basemaps', () => {
     const names = getBasemapNames();
 
     names.forEach((name) => {
       const def = basemaps[name];
+      if (def.kind === 'style') return;
       // URLs should contain tile coordinates placeholders
       const hasXYZ = def.url.includes('{x}') && def.url.includes('{y}') && def.url.includes('{z}');
       expect(hasXYZ).toBe(true);
     });
   });
 });
+
+describe('basemap registration', () => {
+  const definition = {
+    name: 'My Streets',
+    url: 'https://tiles.example.com/streets/{z}/{x}/{y}.png',
+    attribution: '&copy; Example',
+    maxZoom: 19,
+  };
+
+  afterEach(() => {
+    unregisterBasemap('MyTiles.Streets');
+    unregisterBasemap('OpenStreetMap.Mapnik');
+  });
+
+  it('should expose registered basemaps through the catalog helpers', () => {
+    registerBasemap('MyTiles.Streets', definition);
+
+    const name = 'MyTiles.Streets' as BasemapName;
+    expect(getBasemapNames()).toContain('MyTiles.Streets');
+    expect(getBasemapDefinition(name)?.url).toBe(definition.url);
+    expect(() => validateBasemapName('MyTiles.Streets')).not.toThrow();
+  });
+
+  it('should remove registered basemaps', () => {
+    registerBasemap('MyTiles.Streets', definition);
+
+    expect(unregisterBasemap('MyTiles.Streets')).toBe(true);
+    expect(unregisterBasemap('MyTiles.Streets')).toBe(false);
+    expect(unregisterBasemap('toString')).toBe(false);
+    expect(unregisterBasemap('constructor')).toBe(false);
+    expect(getBasemapNames()).not.toContain('MyTiles.Streets');
+    expect(() => validateBasemapName('MyTiles.Streets')).toThrow(MapExtendError);
+  });
+
+  it('should shadow built-in basemaps until unregistered', () => {
+    registerBasemap('OpenStreetMap.Mapnik', definition);
+    expect(getBasemapDefinition('OpenStreetMap.Mapnik')?.url).toBe(definition.url);
+
+    unregisterBasemap('OpenStreetMap.Mapnik');
+    expect(getBasemapDefinition('OpenStreetMap.Mapnik')?.url).toContain('openstreetmap');
+  });
+
+  it('should reject definitions without a URL', () => {
+    expect(() =>
+      registerBasemap('MyTiles.Broken', { ...definition, url: '' })
+    ).toThrow(MapExtendError);
+  });
+});
+
+describe('style basemaps', () => {
+  const createMockMap = () => ({
+    addSource: vi.fn(),
+    addLayer: vi.fn(),
+    removeLayer: vi.fn(),
+    removeSource: vi.fn(),
+    getSource: vi.fn(),
+    getLayer: vi.fn(),
+    getStyle: vi.fn().mockReturnValue({ layers: [{ id: 'user-layer' }], sources: {} }),
+    addSprite: vi.fn(),
+    removeSprite: vi.fn(),
+    getGlyphs: vi.fn().mockReturnValue(null),
+    setGlyphs: vi.fn(),
+    fire: vi.fn(),
+  });
+
+  const style = {
+    version: 8,
+    glyphs: 'https://example.com/fonts/{fontstack}/{range}.pbf',
+    sprite: 'https://example.com/sprite',
+    sources: { openmaptiles: { type: 'vector', url: 'https://example.com/tiles.json' } },
+    layers: [
+      { id: 'background', type: 'background', paint: { 'background-color': '#fff' } },
+      {
+        id: 'poi',
+        type: 'symbol',
+        source: 'openmaptiles',
+        'source-layer': 'poi',
+        layout: { 'icon-image': '{class}_11', 'text-field': '{name}' },
+      },
+    ],
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should include OpenFreeMap style basemaps in the catalog', () => {
+    expect(getBasemapDefinition('OpenFreeMap.Liberty')?.kind).toBe('style');
+  });
+
+  it('should merge style sources, layers, sprites and glyphs below custom layers', async () => {
+    const { addBasemap, getBasemap } = await import('../src/lib/basemaps');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => style }));
+    const mockMap = createMockMap();
+
+    addBasemap(mockMap as any, 'OpenFreeMap.Liberty');
+    await vi.waitFor(() => expect(mockMap.addLayer).toHaveBeenCalledTimes(2));
+
+    expect(getBasemap(mockMap as any)).toBe('OpenFreeMap.Liberty');
+    expect(mockMap.addSource).toHaveBeenCalledWith(
+      '__maplibre-extend-basemap:openmaptiles',
+      style.sources.openmaptiles
+    );
+    expect(mockMap.addSprite).toHaveBeenCalledWith(
+      '__maplibre-extend-basemap:default',
+      'https://example.com/sprite'
+    );
+    expect(mockMap.setGlyphs).toHaveBeenCalledWith(style.glyphs);
+
+    const [poi, beforeId] = mockMap.addLayer.mock.calls[1];
+    expect(beforeId).toBe('user-layer');
+    expect(poi.id).toBe('__maplibre-extend-basemap:poi');
+    expect(poi.source).toBe('__maplibre-extend-basemap:openmaptiles');
+    expect(poi.layout['icon-image']).toBe('__maplibre-extend-basemap:default:{class}_11');
+  });
+
+  it('should rewrite image names in expressions and report glyph conflicts', async () => {
+    const { mergeBasemapStyle } = await import('../src/lib/basemaps/style');
+    const mockMap = createMockMap();
+    mockMap.getGlyphs.mockReturnValue('https://fonts.example.com/{fontstack}/{range}.pbf');
+    const icon = (value: unknown) => ({
+      id: 'icons',
+      type: 'symbol',
+      source: 'openmaptiles',
+      layout: { 'icon-image': value },
+    });
+    const prefix = '__maplibre-extend-basemap:default:';
+
+    mergeBasemapStyle(mockMap as any, {
+      ...style,
+      layers: [
+        icon(['coalesce', ['image', 'shop'], ['image', ['get', 'class']]]),
+        icon(['match', ['get', 'class'], 'bus', 'bus_11', 'dot_11']),
+        icon(['case', ['has', 'rank'], 'star', ['step', ['zoom'], 'dot', 14, 'pin']]),
+      ],
+    } as any);
+
+    const images = mockMap.addLayer.mock.calls.map((call) => call[0].layout['icon-image']);
+    expect(images).toEqual([
+      [
+        'coalesce',
+        ['image', `${prefix}shop`],
+        ['image', ['concat', prefix, ['get', 'class']]],
+      ],
+      ['match', ['get', 'class'], 'bus', `${prefix}bus_11`, `${prefix}dot_11`],
+      [
+        'case',
+        ['has', 'rank'],
+        `${prefix}star`,
+        ['step', ['zoom'], `${prefix}dot`, 14, `${prefix}pin`],
+      ],
+    ]);
+    expect(mockMap.setGlyphs).not.toHaveBeenCalled();
+    expect(mockMap.fire.mock.calls[0][1].error.code).toBe('GLYPHS_CONFLICT');
+  });
+
+  it('should remove merged style layers when the basemap changes', async () => {
+    const { setBasemap } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+    mockMap.getStyle.mockReturnValue({
+      layers: [{ id: '__maplibre-extend-basemap:poi' }, { id: 'user-layer' }],
+      sources: { '__maplibre-extend-basemap:openmaptiles': {} },
+      sprite: [{ id: '__maplibre-extend-basemap:default', url: 'https://example.com/sprite' }],
+    });
+
+    setBasemap(mockMap as any, 'OpenStreetMap.Mapnik');
+
+    expect(mockMap.removeLayer).toHaveBeenCalledWith('__maplibre-extend-basemap:poi');
+    expect(mockMap.removeSource).toHaveBeenCalledWith('__maplibre-extend-basemap:openmaptiles');
+    expect(mockMap.removeSprite).toHaveBeenCalledWith('__maplibre-extend-basemap:default');
+    expect(mockMap.removeLayer).not.toHaveBeenCalledWith('user-layer');
+  });
+
+  it('should report style load failures', async () => {
+    const { addBasemap, getBasemap } = await import('../src/lib/basemaps');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404 }));
+    const mockMap = createMockMap();
+
+    addBasemap(mockMap as any, 'OpenFreeMap.Bright');
+    await vi.waitFor(() => expect(mockMap.fire).toHaveBeenCalled());
+
+    expect(mockMap.fire.mock.calls[0][1].error.code).toBe('STYLE_LOAD_FAILED');
+    expect(getBasemap(mockMap as any)).toBeNull();
+  });
+});
+
+describe('basemap API keys', () => {
+  const createMockMap = () => ({
+    addSource: vi.fn(),
+    addLayer: vi.fn(),
+    removeLayer: vi.fn(),
+    removeSource: vi.fn(),
+    getSource: vi.fn(),
+    getLayer: vi.fn(),
+    getStyle: vi.fn().mockReturnValue({ layers: [], sources: {} }),
+  });
+
+  afterEach(async () => {
+    const { setProviderKeys } = await import('../src/lib/basemaps');
+    setProviderKeys({ Stadia: null, Thunderforest: null });
+  });
+
+  it('should throw UNKNOWN_BASEMAP for unknown names', async () => {
+    const { addBasemap } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+
+    try {
+      addBasemap(mockMap as any, 'Unknown.Basemap' as BasemapName);
+      expect.fail('Expected addBasemap to throw');
+    } catch (e) {
+      expect(e).toBeInstanceOf(MapExtendError);
+      expect((e as MapExtendError).code).toBe('UNKNOWN_BASEMAP');
+      expect((e as MapExtendError).details).toEqual({ name: 'Unknown.Basemap' });
+    }
+    expect(mockMap.addSource).not.toHaveBeenCalled();
+  });
+
+  it('should throw MISSING_API_KEY without a key', async () => {
+    const { addBasemap } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+
+    try {
+      addBasemap(mockMap as any, 'Stadia.AlidadeSmooth');
+      expect.fail('Expected addBasemap to throw');
+    } catch (e) {
+      expect(e).toBeInstanceOf(MapExtendError);
+      expect((e as MapExtendError).code).toBe('MISSING_API_KEY');
+      expect((e as MapExtendError).details?.provider).toBe('Stadia');
+    }
+    expect(mockMap.addSource).not.toHaveBeenCalled();
+  });
+
+  it('should substitute keys set with setProviderKeys', async () => {
+    const { addBasemap, setProviderKeys } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+    setProviderKeys({ Thunderforest: 'tf-key' });
+
+    addBasemap(mockMap as any, 'Thunderforest.OpenCycleMap');
+
+    const tiles: string[] = mockMap.addSource.mock.calls[0][1].tiles;
+    expect(tiles).toHaveLength(3);
+    tiles.forEach((url) => expect(url).toContain('apikey=tf-key'));
+  });
+
+  it('should prefer a key passed per call', async () => {
+    const { addBasemap, setProviderKeys } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+    setProviderKeys({ Stadia: 'global-key' });
+
+    addBasemap(mockMap as any, 'Stadia.StamenToner', { apiKey: 'call-key' });
+
+    expect(mockMap.addSource.mock.calls[0][1].tiles[0]).toContain('api_key=call-key');
+  });
+});
+
+describe('basemap overlay', () => {
+  const createMockMap = () => ({
+    addSource: vi.fn(),
+    addLayer: vi.fn(),
+    removeLayer: vi.fn(),
+    removeSource: vi.fn(),
+    getSource: vi.fn(),
+    getLayer: vi.fn().mockReturnValue({ type: 'raster' }),
+    getStyle: vi.fn().mockReturnValue({ layers: [], sources: {} }),
+    moveLayer: vi.fn(),
+  });
+
+  it('should add the overlay on top of the layer stack', async () => {
+    const { setBasemapOverlay, getBasemapOverlay } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+
+    setBasemapOverlay(mockMap as any, 'CartoDB.PositronOnlyLabels');
+
+    expect(getBasemapOverlay(mockMap as any)).toBe('CartoDB.PositronOnlyLabels');
+    const [layer, beforeId] = mockMap.addLayer.mock.calls[0];
+    expect(layer.id).toBe('__maplibre-extend-overlay-layer');
+    expect(beforeId).toBeUndefined();
+  });
+
+  it('should insert new layers below the overlay', async () => {
+    const { setBasemapOverlay } = await import('../src/lib/basemaps');
+    const { addRaster } = await import('../src/lib/layers/raster');
+    const mockMap = createMockMap();
+    setBasemapOverlay(mockMap as any, 'CartoDB.DarkMatterOnlyLabels');
+
+    addRaster(mockMap as any, 'https://example.com/{z}/{x}/{y}.png');
+    addRaster(mockMap as any, 'https://example.com/{z}/{x}/{y}.png', { beforeId: 'other' });
+
+    expect(mockMap.addLayer.mock.calls[1][1]).toBe('__maplibre-extend-overlay-layer');
+    expect(mockMap.addLayer.mock.calls[2][1]).toBe('other');
+  });
+
+  it('should keep the overlay above layers brought to front', async () => {
+    const { setBasemapOverlay } = await import('../src/lib/basemaps');
+    const { bringLayerToFront } = await import('../src/lib/layers/management');
+    const mockMap = createMockMap();
+    setBasemapOverlay(mockMap as any, 'CartoDB.VoyagerOnlyLabels');
+
+    bringLayerToFront(mockMap as any, 'choropleth');
+
+    expect(mockMap.moveLayer).toHaveBeenCalledWith('choropleth', '__maplibre-extend-overlay-layer');
+  });
+
+  it('should remove the overlay', async () => {
+    const { setBasemapOverlay, getBasemapOverlay } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+    setBasemapOverlay(mockMap as any, 'CartoDB.PositronOnlyLabels');
+
+    setBasemapOverlay(mockMap as any, null);
+
+    expect(getBasemapOverlay(mockMap as any)).toBeNull();
+    expect(mockMap.removeLayer).toHaveBeenCalledWith('__maplibre-extend-overlay-layer');
+  });
+
+  it('should reject style basemaps as overlays', async () => {
+    const { setBasemapOverlay } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+
+    expect(() => setBasemapOverlay(mockMap as any, 'OpenFreeMap.Liberty')).toThrow(MapExtendError);
+  });
+});
+
+describe('xyzservices catalog', () => {
+  const providers = {
+    OpenTopoMap: {
+      url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+      max_zoom: 17,
+      attribution: '(C) OpenStreetMap contributors',
+      name: 'OpenTopoMap',
+    },
+    Thunderforest: {
+      Pioneer: {
+        url: 'https://{s}.tile.thunderforest.com/{variant}/{z}/{x}/{y}.png?apikey={apikey}',
+        variant: 'pioneer',
+        apikey: '<insert your api key here>',
+        max_zoom: 22,
+        html_attribution: '&copy; Thunderforest',
+        name: 'Thunderforest.Pioneer',
+      },
+    },
+    NASAGIBS: {
+      ViirsEarthAtNight2012: {
+        url: 'https://map1.vis.earthdata.nasa.gov/wmts-webmerc/{variant}/default/{time}/{tilematrixset}{max_zoom}/{z}/{y}/{x}.{format}',
+        variant: 'VIIRS_CityLights_2012',
+        format: 'jpg',
+        tilematrixset: 'GoogleMapsCompatible_Level',
+        time: '',
+        min_zoom: 1,
+        max_zoom: 8,
+        bounds: [
+          [-85.0511287776, -179.999999975],
+          [85.0511287776, 179.999999975],
+        ],
+        attribution: 'NASA',
+        name: 'NASAGIBS.ViirsEarthAtNight2012',
+      },
+      Broken: { url: 'https://broken/{z}/{x}/{y}.png', status: 'broken', attribution: '' },
+    },
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should flatten nested providers and substitute placeholders', async () => {
+    const { parseXyzServicesCatalog } = await import('../src/lib/basemaps');
+
+    const catalog = parseXyzServicesCatalog(providers);
+
+    expect(Object.keys(catalog)).toEqual([
+      'OpenTopoMap',
+      'Thunderforest.Pioneer',
+      'NASAGIBS.ViirsEarthAtNight2012',
+    ]);
+    expect(catalog.OpenTopoMap).toMatchObject({ maxZoom: 17, subdomains: 'abc' });
+
+    const pioneer = catalog['Thunderforest.Pioneer'];
+    expect(pioneer.url).toBe(
+      'https://{s}.tile.thunderforest.com/pioneer/{z}/{x}/{y}.png?apikey={apikey}'
+    );
+    expect(pioneer.keyPlaceholder).toBe('apikey');
+    expect(pioneer.attribution).toBe('&copy; Thunderforest');
+
+    const gibs = catalog['NASAGIBS.ViirsEarthAtNight2012'];
+    expect(gibs.url).toBe(
+      'https://map1.vis.earthdata.nasa.gov/wmts-webmerc/VIIRS_CityLights_2012/default//GoogleMapsCompatible_Level8/{z}/{y}/{x}.jpg'
+    );
+    expect(gibs.minZoom).toBe(1);
+    expect(gibs.bounds).toEqual([-179.999999975, -85.0511287776, 179.999999975, 85.0511287776]);
+  });
+
+  it('should register every provider loaded from a URL', async () => {
+    const { loadXyzServicesCatalog } = await import('../src/lib/basemaps');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => providers }));
+
+    const names = await loadXyzServicesCatalog('https://example.com/providers.json');
+
+    expect(names).toContain('Thunderforest.Pioneer');
+    expect(getBasemapNames()).toContain('NASAGIBS.ViirsEarthAtNight2012');
+    names.forEach((name) => unregisterBasemap(name));
+  });
+
+  it('should keep the metadata of built-in basemaps', async () => {
+    const { loadXyzServicesCatalog, findBasemaps } = await import('../src/lib/basemaps');
+    const darkBefore = findBasemaps({ theme: 'dark' });
+
+    const names = await loadXyzServicesCatalog({
+      CartoDB: {
+        DarkMatter: {
+          url: 'https://{s}.basemaps.cartocdn.com/{variant}/{z}/{x}/{y}{r}.png',
+          variant: 'dark_all',
+          attribution: '(C) OpenStreetMap contributors (C) CARTO',
+          name: 'CartoDB.DarkMatter',
+        },
+      },
+    });
+
+    expect(getBasemapDefinition('CartoDB.DarkMatter')).toMatchObject({
+      attribution: '(C) OpenStreetMap contributors (C) CARTO',
+      theme: 'dark',
+      hasLabels: true,
+    });
+    expect(findBasemaps({ theme: 'dark' })).toEqual(darkBefore);
+    names.forEach((name) => unregisterBasemap(name));
+  });
+
+  it('should throw HTTP_<status> for HTTP errors', async () => {
+    const { loadXyzServicesCatalog } = await import('../src/lib/basemaps');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500 }));
+
+    await expect(loadXyzServicesCatalog('https://example.com/providers.json')).rejects.toMatchObject({
+      code: 'HTTP_500',
+    });
+  });
+});
+
+describe('basemap fallback', () => {
+  // Create mock map with a minimal event emitter
+  const createMockMap = () => {
+    const listeners: Record<string, ((event: any) => void)[]> = {};
+    return {
+      addSource: vi.fn(),
+      addLayer: vi.fn(),
+      removeLayer: vi.fn(),
+      removeSource: vi.fn(),
+      getSource: vi.fn(),
+      getLayer: vi.fn(),
+      getStyle: vi.fn().mockReturnValue({ layers: [], sources: {} }),
+      on: vi.fn((type: string, listener: (event: any) => void) => {
+        (listeners[type] = listeners[type] || []).push(listener);
+      }),
+      off: vi.fn((type: string, listener: (event: any) => void) => {
+        listeners[type] = (listeners[type] || []).filter((l) => l !== listener);
+      }),
+      fire: vi.fn((type: string, event: any = {}) => {
+        [...(listeners[type] || [])].forEach((listener) => listener(event));
+      }),
+    };
+  };
+
+  const tileError = { error: new Error('Failed'), sourceId: '__maplibre-extend-basemap' };
+
+  it('should switch to the next candidate after the error threshold', async () => {
+    const { addBasemap, getBasemap } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+    const onFallback = vi.fn();
+    mockMap.on('basemapfallback', onFallback);
+
+    addBasemap(mockMap as any, ['Esri.WorldImagery', 'USGS.USImagery'], { errorThreshold: 2 });
+    expect(getBasemap(mockMap as any)).toBe('Esri.WorldImagery');
+
+    mockMap.fire('error', tileError);
+    mockMap.fire('error', { error: new Error('Other'), sourceId: 'other-source' });
+    expect(getBasemap(mockMap as any)).toBe('Esri.WorldImagery');
+
+    mockMap.fire('error', tileError);
+    expect(getBasemap(mockMap as any)).toBe('USGS.USImagery');
+    expect(onFallback).toHaveBeenCalledWith(
+      expect.objectContaining({ from: 'Esri.WorldImagery', to: 'USGS.USImagery', errors: 2 })
+    );
+
+    // The last candidate reports that no fallback is left
+    mockMap.fire('error', tileError);
+    mockMap.fire('error', tileError);
+    expect(onFallback).toHaveBeenLastCalledWith(
+      expect.objectContaining({ from: 'USGS.USImagery', to: null })
+    );
+    expect(getBasemap(mockMap as any)).toBe('USGS.USImagery');
+  });
+
+  it('should reset the error count when tiles load', async () => {
+    const { addBasemap, getBasemap } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+
+    addBasemap(mockMap as any, ['Esri.WorldImagery', 'USGS.USImagery'], { errorThreshold: 2 });
+    mockMap.fire('error', tileError);
+    mockMap.fire('sourcedata', { sourceId: '__maplibre-extend-basemap', tile: {} });
+    mockMap.fire('error', tileError);
+
+    expect(getBasemap(mockMap as any)).toBe('Esri.WorldImagery');
+  });
+
+  it('should skip candidates that cannot be added', async () => {
+    const { addBasemap, getBasemap } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+
+    addBasemap(mockMap as any, ['Stadia.AlidadeSmooth', 'CartoDB.Positron']);
+    expect(getBasemap(mockMap as any)).toBe('CartoDB.Positron');
+
+    expect(() => addBasemap(mockMap as any, ['Stadia.AlidadeSmooth'])).toThrow(MapExtendError);
+    expect(() => addBasemap(mockMap as any, ['Unknown.Basemap' as BasemapName])).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_BASEMAP' })
+    );
+  });
+
+  it('should stop watching when the basemap is replaced', async () => {
+    const { addBasemap } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+
+    addBasemap(mockMap as any, ['Esri.WorldImagery', 'USGS.USImagery']);
+    addBasemap(mockMap as any, 'CartoDB.Positron');
+
+    expect(mockMap.off).toHaveBeenCalledWith('error', expect.any(Function));
+    expect(mockMap.off).toHaveBeenCalledWith('sourcedata', expect.any(Function));
+  });
+
+  it('should keep watching a basemap restored after a style change', async () => {
+    const { addBasemap, getBasemap } = await import('../src/lib/basemaps');
+    const { restoreCustomLayers } = await import('../src/lib/layers/restore');
+    const mockMap = createMockMap();
+
+    addBasemap(mockMap as any, ['Esri.WorldImagery', 'USGS.USImagery'], { errorThreshold: 1 });
+    const previous = {
+      version: 8,
+      sources: { '__maplibre-extend-basemap': { type: 'raster', tiles: [] } },
+      layers: [
+        {
+          id: '__maplibre-extend-basemap-layer',
+          type: 'raster',
+          source: '__maplibre-extend-basemap',
+        },
+      ],
+    };
+    restoreCustomLayers(mockMap as any, previous as any, { version: 8, sources: {}, layers: [] });
+
+    mockMap.fire('error', tileError);
+    expect(getBasemap(mockMap as any)).toBe('USGS.USImagery');
+  });
+
+  it('should stop watching when a style change drops the basemap', async () => {
+    const { addBasemap, getBasemap } = await import('../src/lib/basemaps');
+    const { restoreCustomLayers, setRestoreOnStyleChange } = await import(
+      '../src/lib/layers/restore'
+    );
+    const mockMap = createMockMap();
+    const onFallback = vi.fn();
+    mockMap.on('basemapfallback', onFallback);
+
+    addBasemap(mockMap as any, ['Esri.WorldImagery', 'USGS.USImagery'], { errorThreshold: 1 });
+    setRestoreOnStyleChange(mockMap as any, false);
+    restoreCustomLayers(mockMap as any, { version: 8, sources: {}, layers: [] }, {
+      version: 8,
+      sources: {},
+      layers: [],
+    });
+
+    mockMap.fire('error', tileError);
+    expect(getBasemap(mockMap as any)).toBeNull();
+    expect(onFallback).not.toHaveBeenCalled();
+  });
+});
+
+describe('basemap appearance', () => {
+  const createMockMap = () => ({
+    addSource: vi.fn(),
+    addLayer: vi.fn(),
+    removeLayer: vi.fn(),
+    removeSource: vi.fn(),
+    getSource: vi.fn(),
+    getLayer: vi.fn(),
+    getStyle: vi.fn().mockReturnValue({
+      layers: [{ id: '__maplibre-extend-basemap-layer', type: 'raster' }],
+      sources: {},
+    }),
+    setPaintProperty: vi.fn(),
+  });
+
+  it('should apply appearance options to the basemap layer', async () => {
+    const { setBasemapStyle, getBasemapStyle } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+
+    setBasemapStyle(mockMap as any, { opacity: 1.5, saturation: -0.5 });
+
+    expect(getBasemapStyle(mockMap as any)).toEqual({ opacity: 1, saturation: -0.5 });
+    expect(mockMap.setPaintProperty).toHaveBeenCalledWith(
+      '__maplibre-extend-basemap-layer',
+      'raster-opacity',
+      1
+    );
+    expect(mockMap.setPaintProperty).toHaveBeenCalledWith(
+      '__maplibre-extend-basemap-layer',
+      'raster-saturation',
+      -0.5
+    );
+  });
+
+  it('should replace the appearance with a preset and reset other properties', async () => {
+    const { setBasemapStyle, getBasemapStyle } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+
+    setBasemapStyle(mockMap as any, { hueRotate: 90 });
+    mockMap.setPaintProperty.mockClear();
+    setBasemapStyle(mockMap as any, 'grayscale');
+
+    expect(getBasemapStyle(mockMap as any)).toEqual({ saturation: -1 });
+    expect(mockMap.setPaintProperty).toHaveBeenCalledWith(
+      '__maplibre-extend-basemap-layer',
+      'raster-hue-rotate',
+      undefined
+    );
+    expect(() => setBasemapStyle(mockMap as any, 'sepia' as any)).toThrow(MapExtendError);
+  });
+
+  it('should keep the appearance across basemap changes', async () => {
+    const { setBasemapStyle, setBasemap } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+
+    setBasemapStyle(mockMap as any, 'dimmed');
+    setBasemap(mockMap as any, 'CartoDB.Positron');
+
+    const [layer] = mockMap.addLayer.mock.calls[0];
+    expect(layer.paint).toEqual({
+      'raster-opacity': 1,
+      'raster-brightness-max': 0.6,
+      'raster-saturation': -0.3,
+    });
+  });
+});
+
+describe('basemap metadata', () => {
+  it('should have metadata for all built-in basemaps', () => {
+    Object.values(basemaps).forEach((definition) => {
+      expect(['light', 'dark', 'imagery', 'terrain']).toContain(definition.theme);
+      expect(typeof definition.hasLabels).toBe('boolean');
+      expect(definition.license).toBeTruthy();
+    });
+  });
+
+  it('should describe a basemap', async () => {
+    const { getBasemapMetadata } = await import('../src/lib/basemaps');
+
+    expect(getBasemapMetadata('Stadia.AlidadeSmoothDark')).toMatchObject({
+      name: 'Stadia.AlidadeSmoothDark',
+      provider: 'Stadia',
+      kind: 'raster',
+      theme: 'dark',
+      hasLabels: true,
+      requiresKey: true,
+    });
+    expect(getBasemapMetadata('OpenFreeMap.Liberty')?.kind).toBe('style');
+    expect(getBasemapMetadata('Unknown.Basemap' as BasemapName)).toBeUndefined();
+  });
+
+  it('should find basemaps by metadata', async () => {
+    const { findBasemaps } = await import('../src/lib/basemaps');
+
+    const dark = findBasemaps({ theme: 'dark', requiresKey: false });
+    expect(dark).toContain('CartoDB.DarkMatter');
+    expect(dark).not.toContain('Stadia.AlidadeSmoothDark');
+    expect(dark).not.toContain('CartoDB.Positron');
+
+    const imagery = findBasemaps({
+      theme: 'imagery',
+      hasLabels: false,
+      provider: ['Esri', 'Google'],
+    });
+    expect(imagery).toEqual(['Esri.WorldImagery', 'Google.Satellite']);
+
+    expect(findBasemaps({ search: 'voyager', hasLabels: false })).toEqual([
+      'CartoDB.VoyagerNoLabels',
+    ]);
+  });
+
+  it('should filter basemaps by coverage', async () => {
+    const { findBasemaps } = await import('../src/lib/basemaps');
+
+    expect(findBasemaps({ provider: 'USGS', covers: [-77.03, 38.9] })).toHaveLength(3);
+    expect(findBasemaps({ provider: 'USGS', covers: [2.35, 48.85] })).toHaveLength(0);
+    expect(findBasemaps({ theme: 'imagery', covers: [2.35, 48.85] })).toContain(
+      'Esri.WorldImagery'
+    );
+  });
+
+  it('should not match registered basemaps without metadata on metadata queries', async () => {
+    const { findBasemaps } = await import('../src/lib/basemaps');
+    registerBasemap('Meta.Plain', {
+      name: 'Plain',
+      url: 'https://tiles.example.com/{z}/{x}/{y}.png',
+      attribution: '',
+    });
+
+    expect(findBasemaps({ provider: 'Meta' })).toEqual(['Meta.Plain']);
+    expect(findBasemaps({ theme: 'light' })).not.toContain('Meta.Plain');
+    unregisterBasemap('Meta.Plain');
+  });
+});
+
+describe('tile schemes', () => {
+  const createMockMap = () => ({
+    addSource: vi.fn(),
+    addLayer: vi.fn(),
+    removeLayer: vi.fn(),
+    removeSource: vi.fn(),
+    getSource: vi.fn(),
+    getLayer: vi.fn(),
+    getStyle: vi.fn().mockReturnValue({ layers: [], sources: {} }),
+  });
+
+  afterEach(() => {
+    ['Schemes.TMS', 'Schemes.Quadkey', 'Schemes.WMTS'].forEach((name) => unregisterBasemap(name));
+  });
+
+  it('should compute quadkeys', async () => {
+    const { tileToQuadkey } = await import('../src/lib/basemaps/raster');
+
+    expect(tileToQuadkey({ z: 3, x: 3, y: 5 })).toBe('213');
+    expect(tileToQuadkey({ z: 0, x: 0, y: 0 })).toBe('');
+  });
+
+  it('should use the native TMS scheme for {-y} templates', async () => {
+    const { addBasemap, getBasemapThumbnailUrl } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+    registerBasemap('Schemes.TMS', {
+      name: 'TMS',
+      url: 'https://tms.example.com/{z}/{x}/{-y}.png',
+      attribution: '',
+    });
+
+    addBasemap(mockMap as any, 'Schemes.TMS' as BasemapName);
+
+    const [, source] = mockMap.addSource.mock.calls[0];
+    expect(source.scheme).toBe('tms');
+    expect(source.tiles).toEqual(['https://tms.example.com/{z}/{x}/{y}.png']);
+    expect(getBasemapThumbnailUrl('Schemes.TMS' as BasemapName)).toBe(
+      'https://tms.example.com/3/4/5.png'
+    );
+  });
+
+  it('should translate quadkey and WMTS placeholders', async () => {
+    const { addBasemap, getBasemapThumbnailUrl } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+    registerBasemap('Schemes.Quadkey', {
+      name: 'Quadkey',
+      url: 'https://ecn.t{s}.tiles.example.com/tiles/a{q}.jpeg',
+      attribution: '',
+      subdomains: '0123',
+      scheme: 'quadkey',
+    });
+    registerBasemap('Schemes.WMTS', {
+      name: 'WMTS',
+      url: 'https://wmts.example.com/layer/default/GoogleMapsCompatible/{TileMatrix}/{TileRow}/{TileCol}.png',
+      attribution: '',
+    });
+
+    addBasemap(mockMap as any, 'Schemes.Quadkey' as BasemapName);
+    const [, quadkeySource] = mockMap.addSource.mock.calls[0];
+    expect(quadkeySource.scheme).toBe('xyz');
+    expect(quadkeySource.tiles[0]).toBe('https://ecn.t0.tiles.example.com/tiles/a{quadkey}.jpeg');
+    expect(getBasemapThumbnailUrl('Schemes.Quadkey' as BasemapName, { z: 3, x: 3, y: 5 })).toBe(
+      'https://ecn.t0.tiles.example.com/tiles/a213.jpeg'
+    );
+
+    addBasemap(mockMap as any, 'Schemes.WMTS' as BasemapName);
+    const [, wmtsSource] = mockMap.addSource.mock.calls[1];
+    expect(wmtsSource.tiles[0]).toBe(
+      'https://wmts.example.com/layer/default/GoogleMapsCompatible/{z}/{y}/{x}.png'
+    );
+  });
+
+  it('should reject quadkey definitions without a quadkey placeholder', () => {
+    expect(() =>
+      registerBasemap('Schemes.Quadkey', {
+        name: 'Quadkey',
+        url: 'https://tiles.example.com/{z}/{x}/{y}.png',
+        attribution: '',
+        scheme: 'quadkey',
+      })
+    ).toThrow(MapExtendError);
+  });
+});
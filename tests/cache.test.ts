@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Create an in-memory Cache API
+const createCacheStorage = () => {
+  const stores = new Map<string, Map<string, Response>>();
+  return {
+    open: async (name: string) => {
+      if (!stores.has(name)) stores.set(name, new Map());
+      const store = stores.get(name)!;
+      return {
+        match: async (url: string) => store.get(url)?.clone(),
+        put: async (url: string, response: Response) => {
+          store.set(url, response);
+        },
+        delete: async (url: string) => store.delete(url),
+        keys: async () => Array.from(store.keys()).map((url) => ({ url })),
+      };
+    },
+    delete: async (name: string) => stores.delete(name),
+  };
+};
+
+// Create mock map
+const createMockMap = () => ({
+  addSource: vi.fn(),
+  addLayer: vi.fn(),
+  removeLayer: vi.fn(),
+  removeSource: vi.fn(),
+  getSource: vi.fn(),
+  getLayer: vi.fn(),
+  getStyle: vi.fn().mockReturnValue({ layers: [], sources: {} }),
+  fire: vi.fn(),
+});
+
+const tileResponse = () => new Response(new Uint8Array(100), { status: 200 });
+
+describe('tile cache', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubGlobal('caches', createCacheStorage());
+    fetchMock = vi.fn().mockImplementation(async () => tileResponse());
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should route basemap and raster tiles through the cache protocol', async () => {
+    const { addProtocol } = await import('maplibre-gl');
+    const { enableTileCache, TILE_CACHE_PROTOCOL } = await import('../src/lib/cache');
+    const { addBasemap } = await import('../src/lib/basemaps');
+    const { addRaster } = await import('../src/lib/layers');
+    const mockMap = createMockMap();
+
+    addBasemap(mockMap as any, 'OpenTopoMap');
+    expect(mockMap.addSource.mock.calls[0][1].tiles[0]).toMatch(/^https:/);
+
+    enableTileCache();
+    expect(addProtocol).toHaveBeenCalledWith(TILE_CACHE_PROTOCOL, expect.any(Function));
+
+    addBasemap(mockMap as any, 'OpenTopoMap');
+    expect(mockMap.addSource.mock.calls[1][1].tiles[0]).toBe(
+      'mgl-extend-cache://https://a.tile.opentopomap.org/{z}/{x}/{y}.png'
+    );
+
+    addRaster(mockMap as any, 'https://tiles.example.com/{z}/{x}/{y}.png');
+    expect(mockMap.addSource.mock.calls[2][1].tiles[0]).toBe(
+      'mgl-extend-cache://https://tiles.example.com/{z}/{x}/{y}.png'
+    );
+  });
+
+  it('should serve repeated requests from the cache', async () => {
+    const { addProtocol } = await import('maplibre-gl');
+    const { enableTileCache, getCacheStats } = await import('../src/lib/cache');
+    enableTileCache();
+
+    const handler = vi.mocked(addProtocol).mock.calls.at(-1)![1];
+    const params = { url: 'mgl-extend-cache://https://tiles.example.com/1/0/0.png' };
+    const first = await handler(params as any, new AbortController());
+    const second = await handler(params as any, new AbortController());
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://tiles.example.com/1/0/0.png');
+    expect((first.data as ArrayBuffer).byteLength).toBe(100);
+    expect((second.data as ArrayBuffer).byteLength).toBe(100);
+
+    const stats = await getCacheStats();
+    expect(stats).toMatchObject({ tiles: 1, bytes: 100, hits: 1, misses: 1 });
+  });
+
+  it('should evict least recently used tiles over the quota', async () => {
+    const { enableTileCache, getCacheStats } = await import('../src/lib/cache');
+    const { fetchTile, hasCachedTile } = await import('../src/lib/cache/store');
+    enableTileCache({ maxTiles: 2 });
+
+    await fetchTile('https://tiles.example.com/a.png');
+    await fetchTile('https://tiles.example.com/b.png');
+    await fetchTile('https://tiles.example.com/a.png'); // a is now most recently used
+    await fetchTile('https://tiles.example.com/c.png');
+
+    expect(await hasCachedTile('https://tiles.example.com/a.png')).toBe(true);
+    expect(await hasCachedTile('https://tiles.example.com/b.png')).toBe(false);
+    expect((await getCacheStats()).tiles).toBe(2);
+  });
+
+  it('should serve cached tiles offline and reject missing ones', async () => {
+    const { enableTileCache } = await import('../src/lib/cache');
+    const { fetchTile } = await import('../src/lib/cache/store');
+    enableTileCache();
+    await fetchTile('https://tiles.example.com/a.png');
+
+    enableTileCache({ offline: true });
+    await expect(fetchTile('https://tiles.example.com/a.png')).resolves.toBeInstanceOf(ArrayBuffer);
+    await expect(fetchTile('https://tiles.example.com/b.png')).rejects.toMatchObject({
+      code: 'TILE_NOT_CACHED',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to expired tiles when the network fails', async () => {
+    const { enableTileCache } = await import('../src/lib/cache');
+    const { fetchTile } = await import('../src/lib/cache/store');
+    enableTileCache({ maxAge: -1 });
+    await fetchTile('https://tiles.example.com/a.png');
+
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await expect(fetchTile('https://tiles.example.com/a.png')).resolves.toBeInstanceOf(ArrayBuffer);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should prefetch a basemap area and report progress', async () => {
+    const { enableTileCache, prefetchBasemapArea, getTileRange, getCacheStats } = await import(
+      '../src/lib/cache'
+    );
+    const { addBasemap } = await import('../src/lib/basemaps');
+    const mockMap = createMockMap();
+    enableTileCache();
+    addBasemap(mockMap as any, 'OpenStreetMap.Mapnik');
+
+    expect(getTileRange([-180, -85, 180, 85], 1)).toEqual({ minX: 0, maxX: 1, minY: 0, maxY: 1 });
+
+    const onProgress = vi.fn();
+    const result = await prefetchBasemapArea(mockMap as any, [-180, -85, 180, 85], 0, 1, {
+      onProgress,
+    });
+
+    expect(result).toEqual({ total: 5, completed: 5, failed: 0 });
+    expect(onProgress).toHaveBeenCalledTimes(5);
+    expect(onProgress).toHaveBeenLastCalledWith({ total: 5, completed: 5, failed: 0 });
+    expect(fetchMock.mock.calls.map((call) => call[0])).toContain(
+      'https://tile.openstreetmap.org/1/1/0.png'
+    );
+    expect((await getCacheStats()).tiles).toBe(5);
+
+    // Cached tiles are skipped
+    await prefetchBasemapArea(mockMap as any, [-180, -85, 180, 85], 0, 1);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it('should reject prefetches without cache or over the quota', async () => {
+    const { enableTileCache, prefetchBasemapArea } = await import('../src/lib/cache');
+    const mockMap = createMockMap();
+    const bbox: [number, number, number, number] = [-180, -85, 180, 85];
+
+    await expect(
+      prefetchBasemapArea(mockMap as any, bbox, 0, 2, { name: 'OpenStreetMap.Mapnik' })
+    ).rejects.toMatchObject({ code: 'CACHE_DISABLED' });
+
+    enableTileCache({ maxTiles: 10 });
+    await expect(
+      prefetchBasemapArea(mockMap as any, bbox, 0, 2, { name: 'OpenStreetMap.Mapnik' })
+    ).rejects.toMatchObject({ code: 'TOO_MANY_TILES' });
+    await expect(
+      prefetchBasemapArea(mockMap as any, bbox, 0, 2, { name: 'OpenFreeMap.Liberty' })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_BASEMAP' });
+  });
+
+  it('should clear the cache', async () => {
+    const { enableTileCache, clearTileCache, getCacheStats } = await import('../src/lib/cache');
+    const { fetchTile } = await import('../src/lib/cache/store');
+    enableTileCache();
+    await fetchTile('https://tiles.example.com/a.png');
+
+    await clearTileCache();
+    expect(await getCacheStats()).toMatchObject({ tiles: 0, bytes: 0, hits: 0, misses: 0 });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BasemapControl } from '../src/lib/controls';
+import { registerBasemap, unregisterBasemap } from '../src/lib/basemaps';
+import type { BasemapName } from '../src/lib/basemaps/types';
+
+// Create mock map
+const createMockMap = () => ({
+  addSource: vi.fn(),
+  addLayer: vi.fn(),
+  removeLayer: vi.fn(),
+  removeSource: vi.fn(),
+  getSource: vi.fn(),
+  getLayer: vi.fn(),
+  getStyle: vi.fn().mockReturnValue({ layers: [], sources: {} }),
+  on: vi.fn(),
+  off: vi.fn(),
+  fire: vi.fn(),
+});
+
+describe('BasemapControl', () => {
+  let mockMap: ReturnType<typeof createMockMap>;
+
+  beforeEach(() => {
+    mockMap = createMockMap();
+  });
+
+  it('should render thumbnails grouped by provider', () => {
+    const control = new BasemapControl({
+      basemaps: ['CartoDB.Positron', 'CartoDB.DarkMatter', 'Esri.WorldImagery'],
+      collapsed: false,
+    });
+    const container = control.onAdd(mockMap as any);
+
+    const groups = Array.from(container.querySelectorAll('.mgl-extend-basemap-control-group'));
+    expect(groups.map((g) => g.textContent)).toEqual(['CartoDB', 'Esri']);
+
+    const items = container.querySelectorAll('.mgl-extend-basemap-control-item');
+    expect(items).toHaveLength(3);
+
+    const img = items[2].querySelector('img')!;
+    expect(img.src).toBe(
+      'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/3/2/4'
+    );
+    expect(control.isCollapsed()).toBe(false);
+  });
+
+  it('should group basemaps by their metadata provider', () => {
+    const definition = {
+      name: 'Streets',
+      url: 'https://tiles.example.com/{z}/{x}/{y}.png',
+      attribution: '&copy; Example',
+    };
+    registerBasemap('MyTiles.Streets', { ...definition, provider: 'Example' });
+    registerBasemap('MyTiles.Plain', definition);
+
+    const control = new BasemapControl({
+      basemaps: ['MyTiles.Streets', 'MyTiles.Plain'] as BasemapName[],
+      collapsed: false,
+    });
+    const container = control.onAdd(mockMap as any);
+
+    const groups = Array.from(container.querySelectorAll('.mgl-extend-basemap-control-group'));
+    expect(groups.map((g) => g.textContent)).toEqual(['Example', 'MyTiles']);
+    unregisterBasemap('MyTiles.Streets');
+    unregisterBasemap('MyTiles.Plain');
+  });
+
+  it('should filter basemaps with the search box', () => {
+    const control = new BasemapControl({ collapsed: false });
+    const container = control.onAdd(mockMap as any);
+
+    const input = container.querySelector('input')!;
+    input.value = 'dark matter';
+    input.dispatchEvent(new Event('input'));
+
+    const names = Array.from(
+      container.querySelectorAll<HTMLElement>('.mgl-extend-basemap-control-item')
+    ).map((item) => item.dataset.basemap);
+    expect(names).toContain('CartoDB.DarkMatter');
+    expect(names).not.toContain('CartoDB.Positron');
+  });
+
+  it('should set the basemap and mark it active on click', () => {
+    const control = new BasemapControl({ basemaps: ['OpenStreetMap.Mapnik', 'OpenTopoMap'] });
+    const container = control.onAdd(mockMap as any);
+
+    const item = container.querySelector<HTMLElement>('[data-basemap="OpenTopoMap"]')!;
+    item.click();
+
+    expect(mockMap.addSource).toHaveBeenCalledTimes(1);
+    expect(mockMap.addSource.mock.calls[0][1].tiles[0]).toContain('opentopomap');
+    expect(item.classList.contains('mgl-extend-basemap-control-active')).toBe(true);
+  });
+
+  it('should show a placeholder for basemaps without a preview', () => {
+    const control = new BasemapControl({ basemaps: ['Stadia.AlidadeSmooth'] });
+    const container = control.onAdd(mockMap as any);
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('.mgl-extend-basemap-control-placeholder')).not.toBeNull();
+  });
+
+  it('should toggle and clean up', () => {
+    const control = new BasemapControl();
+    const container = control.onAdd(mockMap as any);
+    expect(control.isCollapsed()).toBe(true);
+
+    container.querySelector<HTMLButtonElement>('.mgl-extend-basemap-control-toggle')!.click();
+    expect(control.isCollapsed()).toBe(false);
+
+    control.onRemove();
+    expect(mockMap.off).toHaveBeenCalledWith('styledata', expect.any(Function));
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Create mock map
 const createMockMap = () => ({
@@ -13,6 +13,11 @@ const createMockMap = () => ({
   setPaintProperty: vi.fn(),
   moveLayer: vi.fn(),
   fitBounds: vi.fn(),
+  easeTo: vi.fn(),
+  fire: vi.fn(),
+  getGlyphs: vi.fn().mockReturnValue(null),
+  setGlyphs: vi.fn(),
+  getCanvas: vi.fn().mockReturnValue({ style: {} }),
   on: vi.fn(),
   off: vi.fn(),
 });
@@ -23,6 +28,12 @@ describe('layer management', () => {
   beforeEach(() => {
     mockMap = createMockMap();
     vi.clearAllMocks();
+    // COG layers load their bounds from the tile server
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404 }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
   });
 
   describe('addRaster', () => {
@@ -91,6 +102,114 @@ describe('layer management', () => {
       expect(url).toContain(encodeURIComponent('https://example.com/raster.tif'));
     });
   });
+
+  describe('layer bounds', () => {
+    it('should fit to the bounds of GeoJSON data and raster options', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { addRaster } = await import('../src/lib/layers/raster');
+      const { fitToLayer, getLayerBounds } = await import('../src/lib/layers/management');
+
+      await addGeojson(
+        mockMap as any,
+        {
+          type: 'LineString',
+          coordinates: [
+            [1, 2],
+            [3, 4],
+          ],
+        },
+        { layerId: 'route' }
+      );
+      fitToLayer(mockMap as any, 'route', { maxZoom: 10 });
+      expect(mockMap.fitBounds).toHaveBeenCalledWith(
+        [
+          [1, 2],
+          [3, 4],
+        ],
+        { padding: 50, maxZoom: 10 }
+      );
+
+      addRaster(mockMap as any, 'https://example.com/{z}/{x}/{y}.png', {
+        layerId: 'imagery',
+        bounds: [-10, -5, 10, 5],
+      });
+      expect(getLayerBounds(mockMap as any, 'imagery')).toEqual([-10, -5, 10, 5]);
+      expect(getLayerBounds(mockMap as any, 'missing')).toBeNull();
+    });
+
+    it('should store vector tile bounds once the TileJSON is loaded', async () => {
+      const { addVector } = await import('../src/lib/layers/geojson');
+      const { getLayerBounds } = await import('../src/lib/layers/management');
+      mockMap.getSource.mockReturnValue({ bounds: [5, 45, 10, 48] });
+
+      addVector(mockMap as any, 'https://example.com/tiles.pmtiles', {
+        layerId: 'buildings',
+        sourceLayer: 'building',
+        fitBounds: true,
+      });
+      expect(getLayerBounds(mockMap as any, 'buildings')).toBeNull();
+
+      const [, onSourceData] = mockMap.on.mock.calls.find((call) => call[0] === 'sourcedata')!;
+      onSourceData({ sourceId: 'other', sourceDataType: 'metadata' });
+      onSourceData({ sourceId: mockMap.addSource.mock.calls[0][0], sourceDataType: 'metadata' });
+
+      expect(getLayerBounds(mockMap as any, 'buildings')).toEqual([5, 45, 10, 48]);
+      expect(mockMap.off).toHaveBeenCalledWith('sourcedata', onSourceData);
+      expect(mockMap.fitBounds).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting for vector tile bounds on removal or source errors', async () => {
+      const { addVector } = await import('../src/lib/layers/geojson');
+      const { removeLayerById } = await import('../src/lib/layers/management');
+      const listener = (event: string) => mockMap.on.mock.calls.find((call) => call[0] === event);
+
+      addVector(mockMap as any, 'https://example.com/tiles.json', {
+        layerId: 'parcels',
+        sourceLayer: 'parcels',
+      });
+      const [, onSourceData] = listener('sourcedata')!;
+      const [, onError] = listener('error')!;
+      removeLayerById(mockMap as any, 'parcels');
+      expect(mockMap.off).toHaveBeenCalledWith('sourcedata', onSourceData);
+      expect(mockMap.off).toHaveBeenCalledWith('error', onError);
+
+      mockMap.on.mockClear();
+      mockMap.off.mockClear();
+      addVector(mockMap as any, 'https://example.com/missing.json', {
+        layerId: 'roads',
+        sourceLayer: 'roads',
+      });
+      const [, onRoadsError] = listener('error')!;
+      onRoadsError({ sourceId: 'other', error: new Error('404') });
+      expect(mockMap.off).not.toHaveBeenCalled();
+      onRoadsError({ sourceId: mockMap.addSource.mock.calls[1][0], error: new Error('404') });
+      expect(mockMap.off).toHaveBeenCalledWith('sourcedata', listener('sourcedata')![1]);
+    });
+
+    it('should load COG bounds from the tile server', async () => {
+      const { addCogLayer } = await import('../src/lib/layers/raster');
+      const { getLayerBounds } = await import('../src/lib/layers/management');
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ bounds: [-120, 30, -110, 40] }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      addCogLayer(mockMap as any, 'https://example.com/dem.tif', {
+        layerId: 'dem',
+        tileServerUrl: 'https://titiler.example.com',
+      });
+
+      await vi.waitFor(() => {
+        expect(getLayerBounds(mockMap as any, 'dem')).toEqual([-120, 30, -110, 40]);
+      });
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        `https://titiler.example.com/cog/bounds?url=${encodeURIComponent(
+          'https://example.com/dem.tif'
+        )}`
+      );
+    });
+  });
 });
 
 describe('addGeojson', () => {
@@ -125,6 +244,28 @@ describe('addGeojson', () => {
     expect(layerCall[0].type).toBe('circle');
   });
 
+  it('should load GeoJSON from a URL and reject failed requests', async () => {
+    const { addGeojson } = await import('../src/lib/layers/geojson');
+    const point = { type: 'Point', coordinates: [1, 2] };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => point })
+      .mockResolvedValueOnce({ ok: false, status: 404 });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await addGeojson(mockMap as any, 'https://example.com/point.geojson', {
+      loadOptions: { headers: { 'X-Api-Key': 'secret' } },
+    });
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({ 'X-Api-Key': 'secret' });
+    expect(mockMap.addSource.mock.calls[0][1].data).toEqual(point);
+
+    await expect(
+      addGeojson(mockMap as any, 'https://example.com/missing.geojson')
+    ).rejects.toMatchObject({ code: 'HTTP_404' });
+    expect(mockMap.addSource).toHaveBeenCalledTimes(1);
+    vi.unstubAllGlobals();
+  });
+
   it('should add GeoJSON polygon data with fill layer', async () => {
     const { addGeojson } = await import('../src/lib/layers/geojson');
 
@@ -177,4 +318,1276 @@ describe('addGeojson', () => {
     expect(layerCall[0].paint['circle-color']).toBe('#ff0000');
     expect(layerCall[0].paint['circle-radius']).toBe(10);
   });
+
+  describe('mixed geometries', () => {
+    const mixed = {
+      type: 'FeatureCollection' as const,
+      features: [
+        {
+          type: 'Feature' as const,
+          geometry: { type: 'Point' as const, coordinates: [0, 0] },
+          properties: {},
+        },
+        {
+          type: 'Feature' as const,
+          geometry: {
+            type: 'LineString' as const,
+            coordinates: [
+              [0, 0],
+              [1, 1],
+            ],
+          },
+          properties: {},
+        },
+        {
+          type: 'Feature' as const,
+          geometry: {
+            type: 'Polygon' as const,
+            coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+          },
+          properties: {},
+        },
+      ],
+    };
+
+    it('should add one filtered layer per geometry type', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { getLayerInfo } = await import('../src/lib/layers/management');
+
+      const layerId = await addGeojson(mockMap as any, mixed, {
+        layerId: 'mixed',
+        lineColor: '#ff0000',
+        paint: { 'circle-radius': 3 },
+      });
+
+      expect(mockMap.addSource).toHaveBeenCalledTimes(1);
+      const layers = mockMap.addLayer.mock.calls.map((call) => call[0]);
+      expect(layers.map((l) => [l.id, l.type])).toEqual([
+        ['mixed', 'fill'],
+        ['mixed-line', 'line'],
+        ['mixed-circle', 'circle'],
+      ]);
+      expect(layers.every((l) => l.source === layers[0].source)).toBe(true);
+      expect(layers[1].filter).toEqual([
+        'in',
+        ['geometry-type'],
+        ['literal', ['LineString', 'MultiLineString']],
+      ]);
+      expect(layers[1].paint['line-color']).toBe('#ff0000');
+      expect(layers[2].paint['circle-radius']).toBe(3);
+      expect(layers[0].paint['circle-radius']).toBeUndefined();
+
+      expect(layerId).toBe('mixed');
+      expect(getLayerInfo(mockMap as any, 'mixed')?.sublayers).toEqual([
+        'mixed-line',
+        'mixed-circle',
+      ]);
+    });
+
+    it('should keep a single layer when the type is given', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      await addGeojson(mockMap as any, mixed, { type: 'line' });
+
+      expect(mockMap.addLayer).toHaveBeenCalledTimes(1);
+      expect(mockMap.addLayer.mock.calls[0][0].filter).toBeUndefined();
+    });
+
+    it('should manage the composite as one layer', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { removeLayerById, setLayerVisibility, setLayerOpacity, getAllCustomLayers } =
+        await import('../src/lib/layers/management');
+      mockMap.getLayer.mockImplementation((id: string) => ({
+        type: id.endsWith('-line') ? 'line' : id.endsWith('-circle') ? 'circle' : 'fill',
+      }));
+      mockMap.getSource.mockReturnValue({ type: 'geojson' });
+
+      await addGeojson(mockMap as any, mixed, { layerId: 'composite' });
+
+      setLayerVisibility(mockMap as any, 'composite', false);
+      expect(mockMap.setLayoutProperty.mock.calls.map((call) => call[0])).toEqual([
+        'composite',
+        'composite-line',
+        'composite-circle',
+      ]);
+
+      setLayerOpacity(mockMap as any, 'composite', 0.4);
+      expect(mockMap.setPaintProperty).toHaveBeenCalledWith('composite', 'fill-opacity', 0.4);
+      expect(mockMap.setPaintProperty).toHaveBeenCalledWith('composite-line', 'line-opacity', 0.4);
+      expect(mockMap.setPaintProperty).toHaveBeenCalledWith(
+        'composite-circle',
+        'circle-opacity',
+        0.4
+      );
+
+      removeLayerById(mockMap as any, 'composite');
+      expect(mockMap.removeLayer).toHaveBeenCalledTimes(3);
+      expect(mockMap.removeSource).toHaveBeenCalledTimes(1);
+      expect(getAllCustomLayers(mockMap as any).map((l) => l.layerId)).not.toContain('composite');
+    });
+  });
+
+  describe('choropleth', () => {
+    const values = [1, 2, 3, 4, 10, 11, 12, 30, 31, 32];
+    const polygons = {
+      type: 'FeatureCollection' as const,
+      features: [...values, null].map((value) => ({
+        type: 'Feature' as const,
+        geometry: {
+          type: 'Polygon' as const,
+          coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+        },
+        properties: { value },
+      })),
+    };
+
+    it('should build a step fill-color expression and store the classes', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { getLayerInfo } = await import('../src/lib/layers/management');
+
+      await addGeojson(mockMap as any, polygons, {
+        layerId: 'choropleth',
+        fillColor: '#ff0000',
+        style: { column: 'value', scheme: 'equal', classes: 2, colors: ['#eeeeee', '#111111'] },
+      });
+
+      expect(mockMap.addLayer.mock.calls[0][0].paint['fill-color']).toEqual([
+        'case',
+        ['==', ['typeof', ['get', 'value']], 'number'],
+        ['step', ['get', 'value'], '#eeeeee', 16.5, '#111111'],
+        '#cccccc',
+      ]);
+      expect(getLayerInfo(mockMap as any, 'choropleth')?.classification).toEqual({
+        column: 'value',
+        scheme: 'equal',
+        breaks: [1, 16.5, 32],
+        colors: ['#eeeeee', '#111111'],
+        nullColor: '#cccccc',
+      });
+    });
+
+    it('should compute quantile, jenks and manual breaks', async () => {
+      const { classifyFeatures } = await import('../src/lib/layers/classify');
+
+      expect(classifyFeatures(polygons, { column: 'value', classes: 2 }).breaks).toEqual([
+        1, 10.5, 32,
+      ]);
+      expect(
+        classifyFeatures(polygons, { column: 'value', scheme: 'jenks', classes: 3 }).breaks
+      ).toEqual([1, 10, 30, 32]);
+
+      const manual = classifyFeatures(polygons, {
+        column: 'value',
+        scheme: 'manual',
+        breaks: [5, 20],
+        colormap: 'blues',
+      });
+      expect(manual.breaks).toEqual([1, 5, 20, 32]);
+      expect(manual.colors).toEqual(['#f7fbff', '#6baed6', '#08306b']);
+    });
+
+    it('should reject invalid styles before adding the source', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      await expect(
+        addGeojson(mockMap as any, polygons, { style: { column: 'missing' } })
+      ).rejects.toMatchObject({ code: 'INVALID_STYLE' });
+      await expect(
+        addGeojson(mockMap as any, polygons, {
+          style: { column: 'value', classes: 3, colors: ['#000000'] },
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_STYLE' });
+      expect(mockMap.addSource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('categorize', () => {
+    const roads = {
+      type: 'FeatureCollection' as const,
+      features: ['primary', 'service', 'primary', 'track', null].map((kind) => ({
+        type: 'Feature' as const,
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [
+            [0, 0],
+            [1, 1],
+          ],
+        },
+        properties: { kind },
+      })),
+    };
+
+    it('should build a match expression from the unique values', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { getLayerInfo } = await import('../src/lib/layers/management');
+
+      await addGeojson(mockMap as any, roads, {
+        layerId: 'roads',
+        categorize: {
+          column: 'kind',
+          colors: { service: '#000000' },
+          palette: ['#ff0000', '#00ff00', '#0000ff'],
+          otherColor: '#999999',
+        },
+      });
+
+      expect(mockMap.addLayer.mock.calls[0][0].paint['line-color']).toEqual([
+        'match',
+        ['to-string', ['get', 'kind']],
+        'primary',
+        '#ff0000',
+        'service',
+        '#000000',
+        'track',
+        '#0000ff',
+        '#999999',
+      ]);
+      expect(getLayerInfo(mockMap as any, 'roads')?.categories).toEqual({
+        column: 'kind',
+        categories: [
+          { value: 'primary', color: '#ff0000' },
+          { value: 'service', color: '#000000' },
+          { value: 'track', color: '#0000ff' },
+        ],
+        otherColor: '#999999',
+      });
+    });
+
+    it('should compare numeric categories as numbers', async () => {
+      const { categorizeValues, buildCategoryExpression } = await import(
+        '../src/lib/layers/classify'
+      );
+
+      const categories = categorizeValues([1, 2], { column: 'code' });
+      expect(buildCategoryExpression(categories)).toEqual([
+        'match',
+        ['get', 'code'],
+        1,
+        '#1f77b4',
+        2,
+        '#ff7f0e',
+        '#cccccc',
+      ]);
+    });
+
+    it('should take the categories of vector tiles from the options', async () => {
+      const { addVector } = await import('../src/lib/layers/geojson');
+      const { getLayerInfo } = await import('../src/lib/layers/management');
+
+      addVector(mockMap as any, 'https://example.com/{z}/{x}/{y}.pbf', {
+        layerId: 'landuse',
+        sourceLayer: 'landuse',
+        categorize: { column: 'class', colors: { forest: '#228b22', water: '#1e90ff' } },
+      });
+
+      expect(mockMap.addLayer.mock.calls[0][0].paint['fill-color']).toEqual([
+        'match',
+        ['to-string', ['get', 'class']],
+        'forest',
+        '#228b22',
+        'water',
+        '#1e90ff',
+        '#cccccc',
+      ]);
+      expect(getLayerInfo(mockMap as any, 'landuse')?.categories?.categories).toHaveLength(2);
+
+      expect(() =>
+        addVector(mockMap as any, 'https://example.com/{z}/{x}/{y}.pbf', {
+          categorize: { column: 'class' },
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_STYLE' }));
+      expect(mockMap.addSource).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sizeBy', () => {
+    const cities = {
+      type: 'FeatureCollection' as const,
+      features: [100, 400, 10000, null].map((population) => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: [0, 0] },
+        properties: { population },
+      })),
+    };
+
+    it('should interpolate circle-radius over the data extents', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { getLayerInfo } = await import('../src/lib/layers/management');
+
+      await addGeojson(mockMap as any, cities, {
+        layerId: 'cities',
+        circleRadius: 3,
+        sizeBy: { column: 'population', range: [2, 20] },
+      });
+
+      expect(mockMap.addLayer.mock.calls[0][0].paint['circle-radius']).toEqual([
+        'case',
+        ['==', ['typeof', ['get', 'population']], 'number'],
+        ['interpolate', ['linear'], ['sqrt', ['max', ['get', 'population'], 0]], 10, 2, 100, 20],
+        2,
+      ]);
+      expect(getLayerInfo(mockMap as any, 'cities')?.sizing).toEqual({
+        column: 'population',
+        scale: 'sqrt',
+        domain: [100, 10000],
+        range: [2, 20],
+      });
+    });
+
+    it('should support log scales and zoom scaling', async () => {
+      const { computeSizing, buildSizeExpression } = await import('../src/lib/layers/classify');
+
+      const sizing = computeSizing(cities, { column: 'population', scale: 'log' });
+      const expression = buildSizeExpression(sizing, { minZoom: 4, factor: 0.5 });
+
+      expect(expression.slice(0, 4)).toEqual(['interpolate', ['linear'], ['zoom'], 4]);
+      expect(expression[4]).toEqual(['*', 0.5, expression[6]]);
+      expect(expression[5]).toBe(12);
+      expect((expression[6] as unknown[])[2]).toEqual([
+        'interpolate',
+        ['linear'],
+        ['log10', ['max', ['get', 'population'], 100]],
+        2,
+        4,
+        4,
+        24,
+      ]);
+    });
+
+    it('should reject columns without values', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      await expect(
+        addGeojson(mockMap as any, cities, { sizeBy: { column: 'area' } })
+      ).rejects.toMatchObject({ code: 'INVALID_STYLE' });
+      expect(mockMap.addSource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('labels', () => {
+    const polygon = {
+      type: 'Feature' as const,
+      geometry: {
+        type: 'Polygon' as const,
+        coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+      },
+      properties: { name: 'Park' },
+    };
+
+    it('should add a label layer managed with the parent layer', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { getLayerInfo } = await import('../src/lib/layers/management');
+      const { DEFAULT_GLYPHS_URL } = await import('../src/lib/layers/labels');
+
+      await addGeojson(mockMap as any, polygon, {
+        layerId: 'parks',
+        label: { field: 'name', size: 14, allowOverlap: true },
+      });
+
+      expect(mockMap.setGlyphs).toHaveBeenCalledWith(DEFAULT_GLYPHS_URL);
+      expect(mockMap.addLayer).toHaveBeenCalledTimes(2);
+      const label = mockMap.addLayer.mock.calls[1][0];
+      expect(label).toMatchObject({ id: 'parks-label', type: 'symbol' });
+      expect(label.source).toBe(mockMap.addLayer.mock.calls[0][0].source);
+      expect(label.layout).toMatchObject({
+        'text-field': ['get', 'name'],
+        'text-font': ['Open Sans Semibold'],
+        'text-size': 14,
+        'symbol-placement': 'point',
+        'text-allow-overlap': true,
+      });
+      expect(getLayerInfo(mockMap as any, 'parks')?.sublayers).toEqual(['parks-label']);
+    });
+
+    it('should place line labels along lines with the style font', async () => {
+      const { addVector } = await import('../src/lib/layers/geojson');
+      mockMap.getGlyphs.mockReturnValue('https://example.com/fonts/{fontstack}/{range}.pbf');
+      mockMap.getStyle.mockReturnValue({
+        layers: [{ id: 'places', type: 'symbol', layout: { 'text-font': ['Noto Sans Bold'] } }],
+      });
+
+      addVector(mockMap as any, 'https://example.com/{z}/{x}/{y}.pbf', {
+        layerId: 'roads',
+        type: 'line',
+        sourceLayer: 'roads',
+        label: { field: 'ref' },
+      });
+
+      expect(mockMap.setGlyphs).not.toHaveBeenCalled();
+      const label = mockMap.addLayer.mock.calls[1][0];
+      expect(label['source-layer']).toBe('roads');
+      expect(label.layout['symbol-placement']).toBe('line');
+      expect(label.layout['text-font']).toEqual(['Noto Sans Bold']);
+      expect(label.layout['text-offset']).toBeUndefined();
+    });
+
+    it('should fail clearly without a field or glyphs', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      await expect(addGeojson(mockMap as any, polygon, { label: {} })).rejects.toMatchObject({
+        code: 'INVALID_LABEL',
+      });
+
+      mockMap.setGlyphs.mockImplementation(() => {
+        throw new Error('Style is not done loading');
+      });
+      await expect(
+        addGeojson(mockMap as any, polygon, { label: { field: 'name' } })
+      ).rejects.toMatchObject({ code: 'GLYPHS_UNAVAILABLE' });
+      expect(mockMap.addSource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('popups and tooltips', () => {
+    const point = {
+      type: 'Feature' as const,
+      geometry: { type: 'Point' as const, coordinates: [0, 0] },
+      properties: { name: '<b>Paris</b>', population: 2100000 },
+    };
+
+    const getHandler = (map: ReturnType<typeof createMockMap>, type: string) =>
+      map.on.mock.calls.find((call) => call[0] === type)?.[2];
+
+    it('should open a table of properties on click', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { Popup } = await import('maplibre-gl');
+
+      await addGeojson(mockMap as any, point, {
+        layerId: 'cities',
+        popup: true,
+        label: { field: 'name' },
+      });
+
+      expect(getHandler(mockMap, 'click')).toBeDefined();
+      expect(mockMap.on.mock.calls[0][1]).toEqual(['cities', 'cities-label']);
+
+      getHandler(mockMap, 'click')({
+        features: [{ properties: point.properties }],
+        lngLat: { lng: 0, lat: 0 },
+      });
+      const popup = vi.mocked(Popup).mock.results[0].value;
+      expect(popup.setHTML).toHaveBeenCalledWith(
+        '<table class="mgl-extend-popup-table">' +
+          '<tr><th>name</th><td>&lt;b&gt;Paris&lt;/b&gt;</td></tr>' +
+          '<tr><th>population</th><td>2100000</td></tr></table>'
+      );
+      expect(popup.addTo).toHaveBeenCalledWith(mockMap);
+
+      getHandler(mockMap, 'mouseenter')();
+      expect(mockMap.getCanvas().style.cursor).toBe('pointer');
+    });
+
+    it('should render tooltips with a function and set popups later', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { setLayerPopup, setLayerTooltip } = await import('../src/lib/layers/popups');
+      const { Popup } = await import('maplibre-gl');
+
+      expect(() => setLayerPopup(mockMap as any, 'missing', true)).toThrow(
+        expect.objectContaining({ code: 'LAYER_NOT_FOUND' })
+      );
+      expect(() => setLayerTooltip(mockMap as any, 'missing', null)).toThrow(
+        expect.objectContaining({ code: 'LAYER_NOT_FOUND' })
+      );
+      expect(mockMap.on).not.toHaveBeenCalled();
+
+      await addGeojson(mockMap as any, point, {
+        layerId: 'cities',
+        tooltip: (props) => `${props.name}`,
+      });
+      getHandler(mockMap, 'mousemove')({
+        features: [{ properties: point.properties }],
+        lngLat: { lng: 0, lat: 0 },
+      });
+      const tooltip = vi.mocked(Popup).mock.results[0].value;
+      expect(tooltip.setHTML).toHaveBeenCalledWith('<b>Paris</b>');
+      expect(tooltip.addTo).toHaveBeenCalled();
+
+      setLayerPopup(mockMap as any, 'cities', ['population']);
+      expect(mockMap.off).toHaveBeenCalledTimes(4);
+      const clicks = mockMap.on.mock.calls.filter((call) => call[0] === 'click');
+      expect(clicks).toHaveLength(2);
+      expect(mockMap.on.mock.calls.filter((call) => call[0] === 'mousemove')).toHaveLength(2);
+    });
+
+    it('should remove the handlers with the layer', async () => {
+      const { addVector } = await import('../src/lib/layers/geojson');
+      const { removeLayerById } = await import('../src/lib/layers/management');
+
+      addVector(mockMap as any, 'https://example.com/{z}/{x}/{y}.pbf', {
+        layerId: 'parcels',
+        popup: ['id'],
+      });
+      removeLayerById(mockMap as any, 'parcels');
+
+      expect(mockMap.off.mock.calls.map((call) => call[0])).toEqual([
+        'click',
+        'mousemove',
+        'mouseenter',
+        'mouseleave',
+        'sourcedata',
+        'error',
+      ]);
+      expect(mockMap.off.mock.calls[0][2]).toBe(getHandler(mockMap, 'click'));
+    });
+  });
+
+  describe('cluster', () => {
+    const points = {
+      type: 'FeatureCollection' as const,
+      features: [0, 1, 2].map((i) => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: [i, i] },
+        properties: { population: i * 100 },
+      })),
+    };
+
+    it('should add cluster, count and point layers as one layer', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { getLayerInfo } = await import('../src/lib/layers/management');
+
+      await addGeojson(mockMap as any, points, {
+        layerId: 'stations',
+        circleColor: '#ff0000',
+        cluster: {
+          radius: 40,
+          properties: { total: ['+', ['get', 'population']] },
+          colors: ['#aaaaaa', '#bbbbbb'],
+          sizeSteps: [10],
+        },
+      });
+
+      expect(mockMap.addSource.mock.calls[0][1]).toMatchObject({
+        type: 'geojson',
+        cluster: true,
+        clusterRadius: 40,
+        clusterMaxZoom: 14,
+        clusterProperties: { total: ['+', ['get', 'population']] },
+      });
+      const layers = mockMap.addLayer.mock.calls.map((call) => call[0]);
+      expect(layers.map((l) => [l.id, l.type])).toEqual([
+        ['stations', 'circle'],
+        ['stations-count', 'symbol'],
+        ['stations-points', 'circle'],
+      ]);
+      expect(layers[0].paint['circle-color']).toEqual([
+        'step',
+        ['get', 'point_count'],
+        '#aaaaaa',
+        10,
+        '#bbbbbb',
+      ]);
+      expect(layers[2].filter).toEqual(['!', ['has', 'point_count']]);
+      expect(layers[2].paint['circle-color']).toBe('#ff0000');
+      expect(getLayerInfo(mockMap as any, 'stations')?.sublayers).toEqual([
+        'stations-count',
+        'stations-points',
+      ]);
+    });
+
+    it('should zoom to the expansion zoom of a clicked cluster', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { removeLayerById } = await import('../src/lib/layers/management');
+      const getClusterExpansionZoom = vi.fn().mockResolvedValue(9);
+      mockMap.getSource.mockReturnValue({ getClusterExpansionZoom });
+
+      await addGeojson(mockMap as any, points, { layerId: 'stations', cluster: true });
+
+      const onClick = mockMap.on.mock.calls.find((call) => call[0] === 'click')!;
+      expect(onClick[1]).toBe('stations');
+      await onClick[2]({
+        features: [{ properties: { cluster_id: 7 }, geometry: { coordinates: [1, 2] } }],
+      });
+      expect(getClusterExpansionZoom).toHaveBeenCalledWith(7);
+      expect(mockMap.easeTo).toHaveBeenCalledWith({ center: [1, 2], zoom: 9 });
+
+      removeLayerById(mockMap as any, 'stations');
+      expect(mockMap.off).toHaveBeenCalledWith('click', 'stations', onClick[2]);
+      expect(mockMap.removeLayer).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject clustering of non-point data', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      const line = {
+        type: 'LineString' as const,
+        coordinates: [
+          [0, 0],
+          [1, 1],
+        ],
+      };
+      await expect(addGeojson(mockMap as any, line, { cluster: true })).rejects.toMatchObject({
+        code: 'INVALID_CLUSTER',
+      });
+      expect(mockMap.addSource).not.toHaveBeenCalled();
+    });
+
+    it('should cluster empty data to be filled later', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      const empty = { type: 'FeatureCollection' as const, features: [] };
+      await addGeojson(mockMap as any, empty, {
+        layerId: 'feed',
+        cluster: {},
+        label: { field: 'name' },
+      });
+
+      expect(mockMap.addSource.mock.calls[0][1]).toMatchObject({ cluster: true });
+      const layers = mockMap.addLayer.mock.calls.map((call) => call[0]);
+      expect(layers.map((l) => [l.id, l.type])).toEqual([
+        ['feed', 'circle'],
+        ['feed-count', 'symbol'],
+        ['feed-points', 'circle'],
+        ['feed-label', 'symbol'],
+      ]);
+    });
+  });
+
+  describe('heatmap', () => {
+    const points = {
+      type: 'FeatureCollection' as const,
+      features: [0, 1, 2].map((i) => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: [i, i] },
+        properties: { magnitude: 2 + i },
+      })),
+    };
+
+    it('should add a heatmap weighted by a property', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      await addGeojson(mockMap as any, points, {
+        layerId: 'quakes',
+        type: 'heatmap',
+        opacity: 0.7,
+        heatmap: { weight: 'magnitude', radius: 30, colors: 'viridis' },
+        paint: { 'heatmap-intensity': 2 },
+      });
+
+      expect(mockMap.addLayer).toHaveBeenCalledTimes(1);
+      const layer = mockMap.addLayer.mock.calls[0][0];
+      expect(layer).toMatchObject({ id: 'quakes', type: 'heatmap' });
+      expect(layer.paint).toMatchObject({
+        'heatmap-radius': 30,
+        'heatmap-intensity': 2,
+        'heatmap-opacity': 0.7,
+        'heatmap-weight': [
+          'interpolate',
+          ['linear'],
+          ['to-number', ['get', 'magnitude'], 2],
+          2,
+          0,
+          4,
+          1,
+        ],
+      });
+      const ramp = layer.paint['heatmap-color'];
+      expect(ramp.slice(0, 5)).toEqual([
+        'interpolate',
+        ['linear'],
+        ['heatmap-density'],
+        0,
+        'rgba(0, 0, 0, 0)',
+      ]);
+      expect(ramp.slice(-2)).toEqual([1, '#fde725']);
+    });
+
+    it('should switch to circles from circleZoom on', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+      const { setLayerOpacity, getLayerInfo } = await import('../src/lib/layers/management');
+      mockMap.getLayer.mockImplementation((id: string) => ({
+        type: id.endsWith('-points') ? 'circle' : 'heatmap',
+      }));
+
+      await addGeojson(mockMap as any, points, {
+        layerId: 'quakes',
+        type: 'heatmap',
+        circleColor: '#ff0000',
+        minzoom: 2,
+        heatmap: { circleZoom: 9 },
+      });
+
+      const layers = mockMap.addLayer.mock.calls.map((call) => call[0]);
+      expect(layers.map((l) => [l.id, l.type, l.minzoom, l.maxzoom])).toEqual([
+        ['quakes', 'heatmap', 2, 9],
+        ['quakes-points', 'circle', 9, undefined],
+      ]);
+      expect(layers[1].paint['circle-color']).toBe('#ff0000');
+      expect(getLayerInfo(mockMap as any, 'quakes')?.sublayers).toEqual(['quakes-points']);
+
+      setLayerOpacity(mockMap as any, 'quakes', 0.5);
+      expect(mockMap.setPaintProperty).toHaveBeenCalledWith('quakes', 'heatmap-opacity', 0.5);
+      expect(mockMap.setPaintProperty).toHaveBeenCalledWith(
+        'quakes-points',
+        'circle-opacity',
+        0.5
+      );
+    });
+
+    it('should reject heatmaps of non-point data', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      const line = {
+        type: 'LineString' as const,
+        coordinates: [
+          [0, 0],
+          [1, 1],
+        ],
+      };
+      await expect(addGeojson(mockMap as any, line, { type: 'heatmap' })).rejects.toMatchObject({
+        code: 'INVALID_HEATMAP',
+      });
+      expect(mockMap.addSource).not.toHaveBeenCalled();
+    });
+
+    it('should add heatmaps of empty data to be filled later', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      const empty = { type: 'FeatureCollection' as const, features: [] };
+      await addGeojson(mockMap as any, empty, {
+        layerId: 'density',
+        type: 'heatmap',
+        heatmap: { weight: 'mag', circleZoom: 12 },
+      });
+
+      const layers = mockMap.addLayer.mock.calls.map((call) => call[0]);
+      expect(layers.map((l) => [l.id, l.type])).toEqual([
+        ['density', 'heatmap'],
+        ['density-points', 'circle'],
+      ]);
+      expect(layers[0].paint['heatmap-weight']).toBe(1);
+    });
+  });
+
+  describe('extrude', () => {
+    const square = (x: number, height: number) => ({
+      type: 'Feature' as const,
+      geometry: {
+        type: 'Polygon' as const,
+        coordinates: [
+          [
+            [x, 0],
+            [x + 1, 0],
+            [x + 1, 1],
+            [x, 0],
+          ],
+        ],
+      },
+      properties: { height, floor: 2 },
+    });
+    const buildings = {
+      type: 'FeatureCollection' as const,
+      features: [square(0, 10), square(2, 40)],
+    };
+
+    it('should extrude polygons by a property and tilt the camera', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      await addGeojson(mockMap as any, buildings, {
+        layerId: 'buildings',
+        type: 'fill-extrusion',
+        fitBounds: true,
+        extrude: { heightColumn: 'height', baseColumn: 'floor', multiplier: 2 },
+        paint: { 'fill-extrusion-vertical-gradient': false },
+      });
+
+      const layer = mockMap.addLayer.mock.calls[0][0];
+      expect(layer).toMatchObject({ id: 'buildings', type: 'fill-extrusion' });
+      expect(layer.paint).toEqual({
+        'fill-extrusion-color': '#3388ff',
+        'fill-extrusion-height': ['*', ['to-number', ['get', 'height'], 0], 2],
+        'fill-extrusion-base': ['*', ['to-number', ['get', 'floor'], 0], 2],
+        'fill-extrusion-opacity': 0.8,
+        'fill-extrusion-vertical-gradient': false,
+      });
+      expect(mockMap.fitBounds.mock.calls[0][1]).toMatchObject({ padding: 50, pitch: 45 });
+    });
+
+    it('should color extrusions along a colormap', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      await addGeojson(mockMap as any, buildings, {
+        type: 'fill-extrusion',
+        extrude: { heightColumn: 'height', colorBy: { colormap: 'viridis' } },
+      });
+
+      const color = mockMap.addLayer.mock.calls[0][0].paint['fill-extrusion-color'];
+      expect(color.slice(0, 5)).toEqual([
+        'interpolate',
+        ['linear'],
+        ['to-number', ['get', 'height'], 10],
+        10,
+        '#440154',
+      ]);
+      expect(color.slice(-2)).toEqual([40, '#fde725']);
+    });
+
+    it('should extrude vector tiles and set their opacity', async () => {
+      const { addVector } = await import('../src/lib/layers/geojson');
+      const { setLayerOpacity } = await import('../src/lib/layers/management');
+      mockMap.getLayer.mockReturnValue({ type: 'fill-extrusion' });
+
+      addVector(mockMap as any, 'https://example.com/{z}/{x}/{y}.pbf', {
+        layerId: 'tiles',
+        sourceLayer: 'building',
+        type: 'fill-extrusion',
+        extrude: { height: 5, heightColumn: 'render_height' },
+      });
+
+      const layer = mockMap.addLayer.mock.calls[0][0];
+      expect(layer.type).toBe('fill-extrusion');
+      expect(layer.paint['fill-extrusion-height']).toEqual([
+        'to-number',
+        ['get', 'render_height'],
+        5,
+      ]);
+
+      setLayerOpacity(mockMap as any, 'tiles', 0.5);
+      expect(mockMap.setPaintProperty).toHaveBeenCalledWith(
+        'tiles',
+        'fill-extrusion-opacity',
+        0.5
+      );
+    });
+
+    it('should reject extrusions without a height or of non-polygon data', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      await expect(
+        addGeojson(mockMap as any, buildings, { type: 'fill-extrusion' })
+      ).rejects.toMatchObject({ code: 'INVALID_EXTRUSION' });
+      await expect(
+        addGeojson(mockMap as any, { type: 'Point', coordinates: [0, 0] }, {
+          type: 'fill-extrusion',
+          extrude: { height: 10 },
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_EXTRUSION' });
+      expect(mockMap.addSource).not.toHaveBeenCalled();
+    });
+
+    it('should tilt the camera when fitting extruded vector tiles', async () => {
+      const { addVector } = await import('../src/lib/layers/geojson');
+
+      addVector(mockMap as any, 'https://example.com/{z}/{x}/{y}.pbf', {
+        sourceLayer: 'building',
+        type: 'fill-extrusion',
+        extrude: { heightColumn: 'render_height', pitch: 60 },
+        bounds: [0, 0, 1, 1],
+        fitBounds: true,
+      });
+      expect(mockMap.fitBounds.mock.calls[0][1]).toMatchObject({ pitch: 60 });
+
+      mockMap.getSource.mockReturnValue({ bounds: [5, 45, 10, 48] });
+      addVector(mockMap as any, 'https://example.com/buildings.pmtiles', {
+        sourceLayer: 'building',
+        type: 'fill-extrusion',
+        extrude: { height: 10 },
+        fitBounds: true,
+        fitBoundsOptions: { maxZoom: 15 },
+      });
+      const [, onSourceData] = mockMap.on.mock.calls.find((call) => call[0] === 'sourcedata')!;
+      onSourceData({ sourceId: mockMap.addSource.mock.calls[1][0], sourceDataType: 'metadata' });
+      expect(mockMap.fitBounds.mock.calls[1][1]).toEqual({ padding: 50, pitch: 45, maxZoom: 15 });
+    });
+
+    it('should add extrusions of empty data to be filled later', async () => {
+      const { addGeojson } = await import('../src/lib/layers/geojson');
+
+      const empty = { type: 'FeatureCollection' as const, features: [] };
+      await addGeojson(mockMap as any, empty, {
+        layerId: 'buildings',
+        type: 'fill-extrusion',
+        extrude: { heightColumn: 'height', colorBy: {} },
+      });
+
+      const layer = mockMap.addLayer.mock.calls[0][0];
+      expect(layer.type).toBe('fill-extrusion');
+      expect(typeof layer.paint['fill-extrusion-color']).toBe('string');
+    });
+  });
+});
+
+describe('GeoJSON updates', () => {
+  let mockMap: ReturnType<typeof createMockMap>;
+  let setData: ReturnType<typeof vi.fn>;
+
+  const point = (x: number, value: number) => ({
+    type: 'Feature' as const,
+    geometry: { type: 'Point' as const, coordinates: [x, x] },
+    properties: { id: x, value },
+  });
+  const collection = (features: ReturnType<typeof point>[]) => ({
+    type: 'FeatureCollection' as const,
+    features,
+  });
+
+  beforeEach(() => {
+    mockMap = createMockMap();
+    vi.clearAllMocks();
+    setData = vi.fn();
+    mockMap.getSource.mockReturnValue({ type: 'geojson', setData });
+
+    // Track the style layers added to the mock map
+    const styleLayers: Record<string, string> = {};
+    mockMap.addLayer.mockImplementation((layer: { id: string; type: string }) => {
+      styleLayers[layer.id] = layer.type;
+    });
+    mockMap.removeLayer.mockImplementation((id: string) => {
+      delete styleLayers[id];
+    });
+    mockMap.getLayer.mockImplementation(
+      (id: string) => styleLayers[id] && { type: styleLayers[id] }
+    );
+  });
+
+  it('should restyle in place and recompute bounds and breaks', async () => {
+    const { addGeojson } = await import('../src/lib/layers/geojson');
+    const { updateGeojson } = await import('../src/lib/layers/updates');
+    const { getLayerInfo } = await import('../src/lib/layers/management');
+
+    await addGeojson(mockMap as any, collection([point(0, 1), point(1, 2)]), {
+      layerId: 'sensors',
+      style: { column: 'value', scheme: 'equal', classes: 2, colors: ['#000000', '#ffffff'] },
+    });
+    const data = collection([point(2, 10), point(5, 30)]);
+    updateGeojson(mockMap as any, 'sensors', data);
+
+    expect(setData).toHaveBeenCalledWith(data);
+    expect(mockMap.removeLayer).not.toHaveBeenCalled();
+    const colorCall = mockMap.setPaintProperty.mock.calls.find(
+      (call) => call[1] === 'circle-color'
+    )!;
+    expect(colorCall[2][2]).toEqual(['step', ['get', 'value'], '#000000', 20, '#ffffff']);
+    expect(mockMap.setPaintProperty.mock.calls.some((call) => call[1].endsWith('-opacity'))).toBe(
+      false
+    );
+
+    const info = getLayerInfo(mockMap as any, 'sensors')!;
+    expect(info.bounds).toEqual([2, 2, 5, 5]);
+    expect(info.classification?.breaks).toEqual([10, 20, 30]);
+    expect(info.geometryType).toBe('Point');
+  });
+
+  it('should append features up to maxFeatures and remove matching features', async () => {
+    const { addGeojson } = await import('../src/lib/layers/geojson');
+    const { appendFeatures, removeFeatures } = await import('../src/lib/layers/updates');
+
+    await addGeojson(mockMap as any, collection([point(0, 1)]), { layerId: 'vehicles' });
+    appendFeatures(mockMap as any, 'vehicles', [point(1, 2), point(2, 3)], { maxFeatures: 2 });
+    expect(setData.mock.calls[0][0].features.map((f: any) => f.properties.id)).toEqual([1, 2]);
+
+    appendFeatures(mockMap as any, 'vehicles', point(3, 4));
+    removeFeatures(mockMap as any, 'vehicles', (f) => f.properties?.value < 3);
+    expect(setData.mock.calls[2][0].features.map((f: any) => f.properties.id)).toEqual([2, 3]);
+  });
+
+  it('should feed a clustered layer created empty and clear its styling when emptied', async () => {
+    const { addGeojson } = await import('../src/lib/layers/geojson');
+    const { appendFeatures, removeFeatures } = await import('../src/lib/layers/updates');
+    const { getLayerInfo } = await import('../src/lib/layers/management');
+
+    await addGeojson(mockMap as any, collection([]), {
+      layerId: 'feed',
+      cluster: true,
+      sizeBy: { column: 'value' },
+    });
+    expect(getLayerInfo(mockMap as any, 'feed')?.sizing).toBeUndefined();
+
+    appendFeatures(mockMap as any, 'feed', [point(1, 2), point(3, 8)]);
+    expect(mockMap.removeLayer).not.toHaveBeenCalled();
+    expect(mockMap.setPaintProperty).toHaveBeenCalledWith(
+      'feed-points',
+      'circle-radius',
+      expect.any(Array)
+    );
+    let info = getLayerInfo(mockMap as any, 'feed')!;
+    expect(info.sizing?.domain).toEqual([2, 8]);
+    expect(info.bounds).toEqual([1, 1, 3, 3]);
+
+    removeFeatures(mockMap as any, 'feed', () => true);
+    expect(setData).toHaveBeenLastCalledWith(collection([]));
+    info = getLayerInfo(mockMap as any, 'feed')!;
+    expect(info.sizing).toBeUndefined();
+    expect(info.bounds).toBeUndefined();
+    expect(info.sublayers).toEqual(['feed-count', 'feed-points']);
+  });
+
+  it('should replace the layers when the geometry type changes', async () => {
+    const { addGeojson } = await import('../src/lib/layers/geojson');
+    const { updateGeojson } = await import('../src/lib/layers/updates');
+    const { getLayerInfo, setLayerVisibility } = await import('../src/lib/layers/management');
+    mockMap.getStyle.mockReturnValue({
+      layers: [{ id: 'background' }, { id: 'shapes' }, { id: 'shapes-label' }, { id: 'roads' }],
+    });
+
+    await addGeojson(mockMap as any, collection([point(0, 1)]), {
+      layerId: 'shapes',
+      label: { field: 'id' },
+      popup: true,
+    });
+    setLayerVisibility(mockMap as any, 'shapes', false);
+    mockMap.addLayer.mockClear();
+    mockMap.setLayoutProperty.mockClear();
+
+    updateGeojson(mockMap as any, 'shapes', {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 0],
+        ],
+      ],
+    });
+
+    expect(mockMap.removeLayer.mock.calls.map((call) => call[0])).toEqual([
+      'shapes',
+      'shapes-label',
+    ]);
+    expect(mockMap.addLayer.mock.calls.map((call) => [call[0].id, call[0].type, call[1]])).toEqual(
+      [
+        ['shapes', 'fill', 'roads'],
+        ['shapes-label', 'symbol', 'roads'],
+      ]
+    );
+    expect(mockMap.setLayoutProperty).toHaveBeenCalledWith('shapes', 'visibility', 'none');
+    expect(mockMap.on.mock.calls.filter((call) => call[0] === 'click')).toHaveLength(2);
+    expect(getLayerInfo(mockMap as any, 'shapes')?.geometryType).toBe('Polygon');
+  });
+
+  it('should reject updates of unknown layers and data not fitting the options', async () => {
+    const { addGeojson } = await import('../src/lib/layers/geojson');
+    const { updateGeojson } = await import('../src/lib/layers/updates');
+
+    expect(() => updateGeojson(mockMap as any, 'missing', collection([]))).toThrow(
+      expect.objectContaining({ code: 'LAYER_NOT_FOUND' })
+    );
+
+    await addGeojson(mockMap as any, collection([point(0, 1)]), {
+      layerId: 'stations',
+      cluster: true,
+    });
+    expect(() =>
+      updateGeojson(mockMap as any, 'stations', { type: 'LineString', coordinates: [[0, 0]] })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_CLUSTER' }));
+    expect(setData).not.toHaveBeenCalled();
+  });
+});
+
+describe('addCsv', () => {
+  let mockMap: ReturnType<typeof createMockMap>;
+
+  beforeEach(() => {
+    mockMap = createMockMap();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should detect coordinate columns and report invalid rows', async () => {
+    const { addCsv } = await import('../src/lib/layers/csv');
+    const { getLayerInfo } = await import('../src/lib/layers/management');
+
+    const csv = [
+      'Name;Latitude;LNG;count;zip;active',
+      '"Gauge; north";52.5;13.4;12;01067;true',
+      'Gauge south;;13.4;3;01069;false',
+      'Gauge east;95;13.4;;01070;TRUE',
+    ].join('\r\n');
+    const { layerId, invalidRows } = await addCsv(mockMap as any, csv, {
+      layerId: 'gauges',
+      sizeBy: { column: 'count' },
+    });
+
+    expect(layerId).toBe('gauges');
+    const source = mockMap.addSource.mock.calls[0][1];
+    expect(source.data.features).toEqual([
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [13.4, 52.5] },
+        properties: { Name: 'Gauge; north', count: 12, zip: '01067', active: true },
+      },
+    ]);
+    expect(mockMap.addLayer.mock.calls[0][0].type).toBe('circle');
+    expect(invalidRows.map(({ row, reason }) => ({ row, reason }))).toEqual([
+      { row: 3, reason: 'Missing or non-numeric coordinates' },
+      { row: 4, reason: 'Coordinates out of range' },
+    ]);
+    expect(invalidRows[0].values.Name).toBe('Gauge south');
+    expect(getLayerInfo(mockMap as any, 'gauges')?.geometryType).toBe('Point');
+  });
+
+  it('should read WKT columns and load URLs', async () => {
+    const { addCsv, parseWkt } = await import('../src/lib/layers/csv');
+
+    expect(parseWkt('MULTIPOINT (1 2, 3 4)')).toEqual({
+      type: 'MultiPoint',
+      coordinates: [
+        [1, 2],
+        [3, 4],
+      ],
+    });
+    expect(parseWkt('POINT Z (1 2 3)')).toEqual({ type: 'Point', coordinates: [1, 2, 3] });
+    expect(parseWkt('POINT (1 a)')).toBeNull();
+    expect(parseWkt('POLYGON EMPTY')).toBeNull();
+
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      text: () =>
+        Promise.resolve(
+          'id\tshape\n1\tPOLYGON ((0 0, 1 0, 1 1, 0 0))\n2\tLINESTRING (0 0, 1)'
+        ),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { invalidRows } = await addCsv(mockMap as any, 'https://example.com/parcels.tsv', {
+      wktColumn: 'shape',
+      typeInference: false,
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://example.com/parcels.tsv');
+    const source = mockMap.addSource.mock.calls[0][1];
+    expect(source.data.features[0].geometry.type).toBe('Polygon');
+    expect(source.data.features[0].properties).toEqual({ id: '1' });
+    expect(mockMap.addLayer.mock.calls[0][0].type).toBe('fill');
+    expect(invalidRows).toEqual([
+      {
+        row: 3,
+        reason: 'Invalid WKT geometry',
+        values: { id: '2', shape: 'LINESTRING (0 0, 1)' },
+      },
+    ]);
+  });
+
+  it('should parse single-line text and report rows when none is valid', async () => {
+    const { addCsv } = await import('../src/lib/layers/csv');
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(addCsv(mockMap as any, 'id,lat,lon', { cluster: true })).resolves.toEqual({
+      layerId: expect.any(String),
+      invalidRows: [],
+    });
+    const { invalidRows } = await addCsv(mockMap as any, 'id,lat,lon\n1,,\n2,100,0', {
+      cluster: true,
+    });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(invalidRows.map(({ row }) => row)).toEqual([2, 3]);
+    expect(mockMap.addSource.mock.calls[1][1]).toMatchObject({
+      cluster: true,
+      data: { type: 'FeatureCollection', features: [] },
+    });
+  });
+
+  it('should throw when the coordinate columns are not found', async () => {
+    const { addCsv } = await import('../src/lib/layers/csv');
+
+    await expect(addCsv(mockMap as any, 'name,east,north\na,1,2')).rejects.toMatchObject({
+      code: 'INVALID_CSV',
+    });
+    await expect(
+      addCsv(mockMap as any, 'name,east,north\na,1,2', { latColumn: 'north', lonColumn: 'east' })
+    ).resolves.toMatchObject({ invalidRows: [] });
+    expect(mockMap.addSource.mock.calls[0][1].data.features[0].geometry.coordinates).toEqual([
+      1, 2,
+    ]);
+  });
+});
+
+describe('style restore', () => {
+  const previousStyle = {
+    version: 8 as const,
+    glyphs: 'https://example.com/fonts/{fontstack}/{range}.pbf',
+    sources: {
+      '__maplibre-extend-basemap': { type: 'raster' as const, tiles: ['https://a/{z}/{x}/{y}.png'] },
+      old: { type: 'vector' as const, url: 'https://example.com/old.json' },
+      data: { type: 'geojson' as const, data: { type: 'FeatureCollection' as const, features: [] } },
+    },
+    layers: [
+      { id: '__maplibre-extend-basemap-layer', type: 'raster' as const, source: '__maplibre-extend-basemap' },
+      { id: 'old-roads', type: 'line' as const, source: 'old', 'source-layer': 'roads' },
+      {
+        id: 'points',
+        type: 'circle' as const,
+        source: 'data',
+        layout: { visibility: 'none' as const },
+        paint: { 'circle-opacity': 0.3 },
+      },
+    ],
+  };
+
+  const nextStyle = {
+    version: 8 as const,
+    sources: { dark: { type: 'vector' as const, url: 'https://example.com/dark.json' } },
+    layers: [{ id: 'dark-roads', type: 'line' as const, source: 'dark', 'source-layer': 'roads' }],
+  };
+
+  it('should carry the basemap and registered layers into the next style', async () => {
+    const { restoreCustomLayers } = await import('../src/lib/layers/restore');
+    const { storeLayerInfo } = await import('../src/lib/layers/registry');
+    const mockMap = createMockMap();
+    storeLayerInfo(mockMap as any, 'points', 'data', 'geojson', {});
+
+    const result = restoreCustomLayers(mockMap as any, previousStyle, nextStyle);
+
+    expect(result.layers.map((l) => l.id)).toEqual([
+      '__maplibre-extend-basemap-layer',
+      'dark-roads',
+      'points',
+    ]);
+    expect(Object.keys(result.sources)).toEqual(['dark', '__maplibre-extend-basemap', 'data']);
+    expect(result.layers[2]).toEqual(previousStyle.layers[2]);
+  });
+
+  it('should carry the sublayers of composite layers', async () => {
+    const { restoreCustomLayers } = await import('../src/lib/layers/restore');
+    const { storeLayerInfo } = await import('../src/lib/layers/registry');
+    const mockMap = createMockMap();
+    storeLayerInfo(mockMap as any, 'old-roads', 'old', 'vector', {}, { sublayers: ['points'] });
+
+    const result = restoreCustomLayers(mockMap as any, previousStyle, nextStyle);
+
+    expect(result.layers.map((l) => l.id)).toEqual([
+      '__maplibre-extend-basemap-layer',
+      'dark-roads',
+      'old-roads',
+      'points',
+    ]);
+  });
+
+  it('should prune the registry when restoring is disabled', async () => {
+    const { restoreCustomLayers, setRestoreOnStyleChange } = await import(
+      '../src/lib/layers/restore'
+    );
+    const { storeLayerInfo, getLayerInfoById } = await import('../src/lib/layers/registry');
+    const { bindLayerInteractions } = await import('../src/lib/layers/popups');
+    const mockMap = createMockMap();
+    storeLayerInfo(mockMap as any, 'points', 'data', 'geojson', {});
+    bindLayerInteractions(mockMap as any, 'points', { popup: true });
+    setRestoreOnStyleChange(mockMap as any, false);
+
+    const result = restoreCustomLayers(mockMap as any, previousStyle, nextStyle);
+
+    expect(result).toBe(nextStyle);
+    expect(getLayerInfoById(mockMap as any, 'points')).toBeNull();
+    const [, , onClick] = mockMap.on.mock.calls.find((call) => call[0] === 'click')!;
+    expect(mockMap.off).toHaveBeenCalledWith('click', ['points'], onClick);
+  });
+
+  it('should compose with a user-provided transformStyle', async () => {
+    const { withStyleRestore } = await import('../src/lib/layers/restore');
+    const { storeLayerInfo } = await import('../src/lib/layers/registry');
+    const mockMap = createMockMap();
+    storeLayerInfo(mockMap as any, 'points', 'data', 'geojson', {});
+    const userTransform = vi.fn((_previous, next) => next);
+
+    const options = withStyleRestore(mockMap as any, { transformStyle: userTransform });
+    const result = options!.transformStyle!(previousStyle, nextStyle);
+
+    expect(userTransform).toHaveBeenCalledWith(previousStyle, nextStyle);
+    expect(result.layers.map((l) => l.id)).toContain('points');
+  });
 });
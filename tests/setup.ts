@@ -18,5 +18,16 @@ vi.mock('maplibre-gl', () => ({
     on: vi.fn(),
     off: vi.fn(),
   })),
+  Popup: vi.fn().mockImplementation(() => {
+    const popup = {
+      setLngLat: vi.fn(() => popup),
+      setHTML: vi.fn(() => popup),
+      setDOMContent: vi.fn(() => popup),
+      addTo: vi.fn(() => popup),
+      remove: vi.fn(() => popup),
+      isOpen: vi.fn().mockReturnValue(false),
+    };
+    return popup;
+  }),
   addProtocol: vi.fn(),
 }));
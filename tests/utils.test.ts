@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   generateLayerId,
   generateSourceId,
@@ -6,6 +6,9 @@ import {
   clamp,
   MapExtendError,
   validateUrl,
+  loadJson,
+  loadGeojson,
+  loadText,
 } from '../src/lib/utils';
 
 describe('id-generator', () => {
@@ -87,3 +90,105 @@ describe('validation', () => {
     });
   });
 });
+
+describe('loader', () => {
+  const jsonResponse = (body: unknown) => ({ ok: true, status: 200, json: async () => body });
+
+  // Fetch that never resolves, rejecting like fetch when its signal is aborted
+  const hangingFetch = () =>
+    vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should throw HTTP_<status> without retrying client errors', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 404 });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(
+      loadJson('https://example.com/data.json', { retries: 2, retryDelay: 1 })
+    ).rejects.toMatchObject({ code: 'HTTP_404', details: { status: 404 } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry network errors and server errors', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce({ ok: false, status: 503 })
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const data = await loadJson('https://example.com/data.json', {
+      retries: 2,
+      retryDelay: 1,
+      headers: { Authorization: 'Bearer token' },
+      credentials: 'include',
+    });
+
+    expect(data).toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      headers: { Authorization: 'Bearer token' },
+      credentials: 'include',
+    });
+  });
+
+  it('should time out and be cancelled', async () => {
+    vi.stubGlobal('fetch', hangingFetch());
+
+    await expect(
+      loadText('https://example.com/slow.txt', { timeout: 10 })
+    ).rejects.toMatchObject({ code: 'FETCH_TIMEOUT' });
+
+    const controller = new AbortController();
+    const request = loadText('https://example.com/slow.txt', { signal: controller.signal });
+    controller.abort();
+    await expect(request).rejects.toMatchObject({ code: 'FETCH_ABORTED' });
+  });
+
+  it('should report download progress', async () => {
+    const body = JSON.stringify({ type: 'FeatureCollection', features: [] });
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        new Response(body, { headers: { 'content-length': String(body.length) } })
+      )
+    );
+    const onProgress = vi.fn();
+
+    const data = await loadGeojson('https://example.com/data.geojson', { onProgress });
+
+    expect(data).toEqual({ type: 'FeatureCollection', features: [] });
+    expect(onProgress).toHaveBeenLastCalledWith({
+      url: 'https://example.com/data.geojson',
+      loaded: body.length,
+      total: body.length,
+    });
+  });
+
+  it('should reject responses that are not GeoJSON', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ error: 'not found' })));
+    await expect(loadGeojson('https://example.com/data.geojson')).rejects.toMatchObject({
+      code: 'INVALID_GEOJSON',
+    });
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => JSON.parse('<html>'),
+      })
+    );
+    await expect(loadGeojson('https://example.com/data.geojson')).rejects.toMatchObject({
+      code: 'INVALID_GEOJSON',
+    });
+  });
+});